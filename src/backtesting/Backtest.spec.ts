@@ -0,0 +1,135 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import Backtest, { BACKTEST_EVENTS } from "./Backtest";
+
+function bar(symbol, day, open, high, low, close) {
+  return {
+    symbol,
+    beginsAt: new Date(`2017-09-${day}T00:00:00Z`),
+    open,
+    high,
+    low,
+    close,
+    volume: 1000
+  };
+}
+
+describe("Backtest", () => {
+  let bars;
+
+  beforeEach(() => {
+    bars = [
+      bar("FB", 13, 100, 101, 99, 100),
+      bar("FB", 11, 90, 91, 89, 90),
+      bar("FB", 12, 95, 99, 94, 98)
+    ];
+  });
+
+  describe("#run", () => {
+    it("replays bars chronologically", done => {
+      let onBar = sinon.stub();
+
+      new Backtest({ onBar }).run(bars).then(() => {
+        expect(onBar.args.map(args => args[0].close)).to.deep.equal([
+          90,
+          98,
+          100
+        ]);
+        done();
+      });
+    });
+
+    it("fills orders and tracks the equity curve", done => {
+      let strategy = {
+        onBar: (bar, broker) => {
+          if (bar.close === 90) {
+            return broker
+              .submitOrder({
+                symbol: "FB",
+                side: "buy",
+                quantity: 10,
+                type: "limit",
+                price: 95
+              })
+              .then(() => undefined);
+          }
+        }
+      };
+
+      new Backtest(strategy, { cash: 1000 })
+        .run(bars)
+        .then(result => {
+          expect(result.equityCurve).to.deep.equal([
+            {
+              time: new Date("2017-09-11T00:00:00Z"),
+              cash: 1000,
+              equity: 1000
+            },
+            { time: new Date("2017-09-12T00:00:00Z"), cash: 100, equity: 1080 },
+            { time: new Date("2017-09-13T00:00:00Z"), cash: 100, equity: 1100 }
+          ]);
+          expect(result.trades).to.deep.equal([
+            {
+              orderId: "paper-1",
+              symbol: "FB",
+              side: "buy",
+              quantity: 10,
+              price: 90,
+              time: new Date("2017-09-11T00:00:00Z")
+            }
+          ]);
+          expect(result.account).to.include({ cash: 100, buyingPower: 100 });
+          expect(result.positions).to.deep.equal([
+            { symbol: "FB", quantity: 10, averagePrice: 90 }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("doesn't trade shares it doesn't hold", done => {
+      let strategy = {
+        onBar: (bar, broker) => {
+          if (bar.close === 90) {
+            return broker
+              .submitOrder({
+                symbol: "FB",
+                side: "sell",
+                quantity: 10,
+                type: "limit",
+                price: 99.5,
+                timeInForce: "gtc"
+              })
+              .then(() => undefined);
+          }
+        }
+      };
+
+      new Backtest(strategy)
+        .run(bars)
+        .then(result => {
+          expect(result.trades).to.deep.equal([]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("emits bar, equity and finished events", done => {
+      let instance = new Backtest({ onBar: () => undefined });
+      let barListener = sinon.stub();
+      let equityListener = sinon.stub();
+
+      instance.on(BACKTEST_EVENTS.BAR, barListener);
+      instance.on(BACKTEST_EVENTS.EQUITY, equityListener);
+      instance.on(BACKTEST_EVENTS.FINISHED, result => {
+        expect(barListener.callCount).to.equal(3);
+        expect(equityListener.callCount).to.equal(3);
+        expect(result.equityCurve.length).to.equal(3);
+        done();
+      });
+      instance.run(bars);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import EventEmitter = require("events");
+
+import { Account, Bar, Broker, Position } from "../brokers/Broker";
+import SimulatedBroker, { Trade } from "./SimulatedBroker";
+
+export interface Strategy {
+  // Orders are placed through the broker the same way they would be live
+  onBar(bar: Bar, broker: Broker): void | Promise<void>;
+}
+
+export interface BacktestOptions {
+  cash?: number; // Starting cash, defaults to 10,000
+}
+
+export interface EquityPoint {
+  time: Date;
+  cash: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  equityCurve: EquityPoint[];
+  trades: Trade[];
+  account: Account;
+  positions: Position[];
+}
+
+export const enum BACKTEST_EVENTS {
+  BAR = "BAR",
+  EQUITY = "EQUITY",
+  FINISHED = "FINISHED"
+}
+
+/**
+ * Replays historical bars through a strategy, bars that begin at the same
+ * time are replayed together so strategies can trade more than one symbol
+ */
+export default class Backtest extends EventEmitter {
+  protected options: BacktestOptions;
+  protected strategy: Strategy;
+
+  constructor(strategy: Strategy, options: BacktestOptions = {}) {
+    super();
+
+    this.strategy = strategy;
+    this.options = options;
+  }
+
+  public run(bars: Bar[]): Promise<BacktestResult> {
+    let broker = new SimulatedBroker({ cash: this.options.cash });
+    let equityCurve: EquityPoint[] = [];
+
+    let steps = this.groupBars(bars).reduce(
+      (previous, stepBars) =>
+        previous.then(() =>
+          broker.setBars(stepBars).then(() => {
+            let point = {
+              time: stepBars[0].beginsAt,
+              cash: broker.getCash(),
+              equity: broker.getEquity()
+            };
+
+            equityCurve.push(point);
+            this.emit(BACKTEST_EVENTS.EQUITY, point);
+
+            return stepBars.reduce(
+              (previousBar, bar) =>
+                previousBar.then(() => {
+                  this.emit(BACKTEST_EVENTS.BAR, bar);
+
+                  return this.strategy.onBar(bar, broker);
+                }),
+              Promise.resolve()
+            );
+          })
+        ),
+      Promise.resolve()
+    );
+
+    return steps
+      .then(() => Promise.all([broker.fetchAccount(), broker.fetchPositions()]))
+      .then(([account, positions]) => {
+        let result = {
+          equityCurve,
+          trades: broker.getTrades(),
+          account,
+          positions
+        };
+
+        this.emit(BACKTEST_EVENTS.FINISHED, result);
+
+        return result;
+      });
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  /**
+   * Sorts bars chronologically and groups the ones that begin at the same time
+   */
+  protected groupBars(bars: Bar[]): Bar[][] {
+    let groups: { [time: number]: Bar[] } = {};
+
+    bars.forEach(bar => {
+      let time = bar.beginsAt.getTime();
+      groups[time] = (groups[time] || []).concat(bar);
+    });
+
+    return Object.keys(groups)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(time => groups[time]);
+  }
+}
@@ -0,0 +1,139 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import SimulatedBroker from "./SimulatedBroker";
+import {
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType
+} from "../brokers/RobinhoodInterfaces";
+
+function bar(day, open, high, low, close) {
+  return {
+    symbol: "FB",
+    beginsAt: new Date(`2017-09-${day}T00:00:00Z`),
+    open,
+    high,
+    low,
+    close,
+    volume: 1000
+  };
+}
+
+describe("SimulatedBroker", () => {
+  let instance;
+
+  beforeEach(done => {
+    instance = new SimulatedBroker({ cash: 10000 });
+    instance.setBars([bar(11, 100, 101, 99, 100)]).then(() => done());
+  });
+
+  describe("#getQuote", () => {
+    it("quotes the latest close", done => {
+      instance.getQuote("fb").then(body => {
+        expect(body.results[0]).to.include({
+          symbol: "FB",
+          ask_price: "100.0000",
+          bid_price: "100.0000",
+          updated_at: "2017-09-11T00:00:00.000Z"
+        });
+        done();
+      });
+    });
+  });
+
+  describe("#placeBuyOrder", () => {
+    it("fills market orders at the current close", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "backtest://instruments/FB/",
+          symbol: "FB",
+          quantity: "10",
+          price: "105.00"
+        })
+        .then(order => {
+          expect(order).to.include({
+            state: APIOrderState.filled,
+            average_price: "100.00000000",
+            created_at: "2017-09-11T00:00:00.000Z"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("fills limit orders at the open when the bar gaps through", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "backtest://instruments/FB/",
+          symbol: "FB",
+          quantity: "10",
+          type: APIOrderType.limit,
+          time_in_force: APIOrderTimeInForce.gtc,
+          price: "95.00"
+        })
+        .then(order =>
+          instance
+            .setBars([bar(12, 93, 94, 90, 92)])
+            .then(() => instance.getOrder(order.id))
+        )
+        .then(order => {
+          expect(order.average_price).to.equal("93.00000000");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("fills stop orders at the stop price inside the bar", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "backtest://instruments/FB/",
+          symbol: "FB",
+          quantity: "10",
+          trigger: APIOrderTrigger.stop,
+          time_in_force: APIOrderTimeInForce.gtc,
+          stop_price: "103.00",
+          price: null
+        })
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.confirmed);
+
+          return instance
+            .setBars([bar(12, 101, 105, 100, 104)])
+            .then(() => instance.getOrder(order.id));
+        })
+        .then(order => {
+          expect(order).to.include({
+            state: APIOrderState.filled,
+            average_price: "103.00000000"
+          });
+          expect(instance.getTrades().length).to.equal(1);
+          expect(instance.getEquity()).to.equal(10010);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("expires day orders on the next day", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "backtest://instruments/FB/",
+          symbol: "FB",
+          quantity: "10",
+          type: APIOrderType.limit,
+          price: "95.00"
+        })
+        .then(order =>
+          instance
+            .setBars([bar(12, 93, 94, 90, 92)])
+            .then(() => instance.getOrder(order.id))
+        )
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.cancelled);
+          done();
+        })
+        .catch(done);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { Bar } from "../brokers/Broker";
+import PaperBroker, { PaperOrder } from "../brokers/PaperBroker";
+import {
+  APIInstrumentBySymbolResponse,
+  APIInstrumentResponse,
+  APIOrderSide,
+  APIOrderTrigger,
+  APIOrderType,
+  APIQuoteInterface,
+  APIQuoteResponse,
+  InstrumentTypes
+} from "../brokers/RobinhoodInterfaces";
+
+export interface Trade {
+  orderId: string;
+  symbol: string;
+  side: APIOrderSide;
+  quantity: number;
+  price: number;
+  time: Date;
+}
+
+/**
+ * Paper broker whose clock and quotes come from historical bars.
+ * Orders placed on a bar fill at its close, orders left open
+ * fill against the range of the following bars.
+ */
+export default class SimulatedBroker extends PaperBroker {
+  protected bars: { [symbol: string]: Bar } = {};
+  protected time: Date = null;
+  protected trades: Trade[] = [];
+
+  /**
+   * Moves the simulation forward and fills open orders
+   * against the new bars, all bars should begin at the same time
+   */
+  public setBars(bars: Bar[]): Promise<void> {
+    bars.forEach(bar => {
+      this.bars[bar.symbol.toUpperCase()] = bar;
+      this.time = bar.beginsAt;
+    });
+
+    return this.fillOpenOrders();
+  }
+
+  public getQuote(symbols: string[] | string): Promise<APIQuoteResponse> {
+    symbols = Array.isArray(symbols) ? symbols : symbols.split(",");
+
+    return Promise.resolve({
+      results: symbols
+        .map(symbol => this.bars[symbol.toUpperCase()])
+        .filter(bar => bar)
+        .map(bar => this.barToQuote(bar))
+    });
+  }
+
+  public getInstrumentBySymbol(
+    symbol: string
+  ): Promise<APIInstrumentBySymbolResponse> {
+    return Promise.resolve({
+      previous: null,
+      results: [this.createInstrument(symbol.toUpperCase())],
+      next: null
+    });
+  }
+
+  public getTrades(): Trade[] {
+    return this.trades.slice();
+  }
+
+  public getCash(): number {
+    return this.cash;
+  }
+
+  /**
+   * Cash plus the value of every position at the latest close
+   */
+  public getEquity(): number {
+    return Object.keys(this.positions)
+      .map(instrument => this.positions[instrument])
+      .reduce((equity, position) => {
+        let bar = this.bars[position.symbol];
+
+        return equity + position.quantity * (bar ? bar.close : 0);
+      }, this.cash);
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected now(): Date {
+    return this.time || new Date(0);
+  }
+
+  protected barToQuote(bar: Bar): APIQuoteInterface {
+    let close = bar.close.toFixed(4);
+
+    return {
+      ask_price: close,
+      ask_size: 0,
+      bid_price: close,
+      bid_size: 0,
+      last_trade_price: close,
+      last_extended_hours_trade_price: close,
+      previous_close: null,
+      adjusted_previous_close: null,
+      previous_close_date: null,
+      symbol: bar.symbol.toUpperCase(),
+      trading_halted: false,
+      has_traded: true,
+      last_trade_price_source: "backtest",
+      updated_at: bar.beginsAt.toISOString(),
+      instrument: `backtest://instruments/${bar.symbol.toUpperCase()}/`
+    };
+  }
+
+  /**
+   * Every symbol is a tradable stock, priced in cents
+   */
+  protected createInstrument(symbol: string): APIInstrumentResponse {
+    let url = `backtest://instruments/${symbol}/`;
+
+    return {
+      min_tick_size: null,
+      type: InstrumentTypes.stock,
+      splits: `${url}splits/`,
+      margin_initial_ratio: "1.0000",
+      url,
+      quote: `backtest://quotes/${symbol}/`,
+      tradability: "tradable",
+      symbol,
+      bloomberg_unique: "",
+      list_date: null,
+      fundamentals: `backtest://fundamentals/${symbol}/`,
+      state: "active",
+      country: "US",
+      day_trade_ratio: "0.2500",
+      tradeable: true,
+      maintenance_ratio: "1.0000",
+      id: symbol,
+      market: "backtest://markets/XNYS/",
+      name: symbol,
+      simple_name: symbol
+    };
+  }
+
+  /**
+   * Orders placed before the current bar are filled using its range,
+   * gapping through a stop or limit price fills at the open
+   */
+  protected getFillPrice(
+    paperOrder: PaperOrder,
+    quote: APIQuoteInterface
+  ): number | null {
+    let order = paperOrder.order;
+    let bar = this.bars[paperOrder.symbol];
+
+    if (!bar || order.created_at === this.now().toISOString()) {
+      return super.getFillPrice(paperOrder, quote);
+    }
+
+    let isBuy = order.side === APIOrderSide.buy;
+    let price = bar.open;
+
+    if (order.trigger === APIOrderTrigger.stop && !paperOrder.triggered) {
+      let stopPrice = parseFloat(order.stop_price);
+
+      if (isBuy ? bar.high < stopPrice : bar.low > stopPrice) {
+        return null;
+      }
+
+      paperOrder.triggered = true;
+      price = isBuy ? Math.max(price, stopPrice) : Math.min(price, stopPrice);
+    }
+
+    if (order.type === APIOrderType.limit) {
+      let limitPrice = parseFloat(order.price);
+
+      if (isBuy ? bar.low > limitPrice : bar.high < limitPrice) {
+        return null;
+      }
+
+      price = isBuy ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+    }
+
+    return price;
+  }
+
+  protected updatePosition(
+    paperOrder: PaperOrder,
+    quantity: number,
+    price: number
+  ): void {
+    super.updatePosition(paperOrder, quantity, price);
+
+    this.trades.push({
+      orderId: paperOrder.order.id,
+      symbol: paperOrder.symbol,
+      side: paperOrder.order.side,
+      quantity,
+      price,
+      time: this.now()
+    });
+  }
+}
@@ -0,0 +1,438 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+import EventEmitter = require("events");
+import requestPromise = require("request-promise-native");
+
+import BracketOrderManager, { BRACKET_EVENTS } from "./BracketOrderManager";
+import OrderTracker, { ORDER_EVENTS } from "./OrderTracker";
+import PaperBroker from "./PaperBroker";
+import { EVENTS } from "./Robinhood";
+import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
+import { BracketOrderError } from "./RobinhoodErrors";
+import {
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+
+// Settles tracked orders when told to instead of polling
+class FakeTracker extends EventEmitter {
+  public resolvers = {};
+  public promises = {};
+
+  public track(order) {
+    if (!this.promises[order.id]) {
+      this.promises[order.id] = new Promise(
+        resolve => (this.resolvers[order.id] = resolve)
+      );
+    }
+
+    return this.promises[order.id];
+  }
+
+  public settle(id, state, cumulativeQuantity = "0") {
+    this.resolvers[id]({ id, state, cumulative_quantity: cumulativeQuantity });
+  }
+}
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function placed(order) {
+  return {
+    id: order.type === APIOrderType.limit ? "takeProfit" : "stopLoss",
+    state: APIOrderState.confirmed,
+    quantity: order.quantity,
+    cumulative_quantity: "0"
+  };
+}
+
+function partiallyFilled(tracker, id, quantity, cumulativeQuantity) {
+  tracker.emit(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, {
+    order: {
+      id,
+      state: APIOrderState.partially_filled,
+      quantity,
+      cumulative_quantity: cumulativeQuantity
+    },
+    executions: []
+  });
+}
+
+function quote(symbol, bid, ask, last = ask) {
+  return {
+    results: [
+      {
+        symbol,
+        bid_price: bid,
+        ask_price: ask,
+        last_trade_price: last,
+        updated_at: "2017-09-27T16:12:48Z"
+      }
+    ]
+  };
+}
+
+describe("BracketOrderManager", () => {
+  let broker, tracker, instance, options;
+
+  beforeEach(() => {
+    let count = 0;
+    broker = {
+      placeBuyOrder: sinon.stub().resolves({
+        id: "entry",
+        state: APIOrderState.confirmed,
+        cumulative_quantity: "0"
+      }),
+      // Exit IDs are numbered in the order they're placed, "stopLoss1"
+      placeSellOrder: sinon.spy(order =>
+        Promise.resolve(
+          Object.assign(placed(order), { id: placed(order).id + ++count })
+        )
+      ),
+      cancelOrder: sinon.stub().resolves({}),
+      getQuote: sinon.stub().resolves(quote("FB", "99.00", "100.00"))
+    };
+    tracker = new FakeTracker();
+    instance = new BracketOrderManager(broker, { tracker } as any);
+    options = {
+      side: APIOrderSide.buy,
+      entry: {
+        instrument: "http://baz.qux",
+        symbol: "fb",
+        quantity: "10",
+        type: APIOrderType.limit,
+        price: "100.00"
+      },
+      takeProfitPrice: "110.00",
+      stopLossPrice: "95.00"
+    };
+  });
+
+  afterEach(() => {
+    instance.stop();
+  });
+
+  describe("#place", () => {
+    it("places the entry and resolves with the bracket", done => {
+      instance
+        .place(options)
+        .then(bracket => {
+          expect(broker.placeBuyOrder.args[0]).to.deep.equal([options.entry]);
+          expect(bracket).to.deep.include({
+            id: "entry",
+            symbol: "FB",
+            state: "pending",
+            takeProfit: null,
+            stopLoss: null
+          });
+          expect(instance.getBrackets().length).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("places a stop-loss for the filled quantity", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_OPENED, ({ bracket }) => {
+        expect(bracket.state).to.equal("open");
+        expect(bracket.quantity).to.equal("10");
+        expect(bracket.takeProfit).to.equal(null);
+        expect(bracket.stopLoss.id).to.equal("stopLoss1");
+        expect(broker.placeSellOrder.args).to.deep.equal([
+          [
+            {
+              instrument: "http://baz.qux",
+              symbol: "FB",
+              quantity: "10",
+              time_in_force: APIOrderTimeInForce.gtc,
+              type: APIOrderType.market,
+              trigger: APIOrderTrigger.stop,
+              stop_price: "95.00",
+              price: null
+            }
+          ]
+        ]);
+        done();
+      });
+
+      instance
+        .place(options)
+        .then(() => tracker.settle("entry", APIOrderState.filled, "10"));
+    });
+
+    it("covers what filled when the entry is canceled", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_OPENED, ({ bracket }) => {
+        expect(bracket.quantity).to.equal("4");
+        expect(broker.placeSellOrder.args[0][0].quantity).to.equal("4");
+        done();
+      });
+
+      instance
+        .place(options)
+        .then(() => tracker.settle("entry", APIOrderState.cancelled, "4"));
+    });
+
+    it("is canceled when the entry doesn't fill", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CANCELED, ({ bracket }) => {
+        expect(bracket.state).to.equal("canceled");
+        expect(broker.placeSellOrder.callCount).to.equal(0);
+        expect(instance.getBrackets()).to.deep.equal([]);
+        done();
+      });
+
+      instance
+        .place(options)
+        .then(() => tracker.settle("entry", APIOrderState.rejected));
+    });
+
+    it("covers the entry as it partially fills", done => {
+      instance
+        .place(options)
+        .then(() => {
+          partiallyFilled(tracker, "entry", "10", "4");
+          return flush();
+        })
+        .then(() => {
+          expect(broker.placeSellOrder.args[0][0].quantity).to.equal("4");
+          expect(instance.getBrackets()[0]).to.deep.include({
+            state: "pending",
+            quantity: "4"
+          });
+
+          partiallyFilled(tracker, "entry", "10", "7");
+          return flush();
+        })
+        .then(() => {
+          expect(broker.cancelOrder.args[0][0].id).to.equal("stopLoss1");
+          tracker.settle("stopLoss1", APIOrderState.cancelled);
+          return flush();
+        })
+        .then(() => {
+          expect(broker.placeSellOrder.args[1][0].quantity).to.equal("7");
+          expect(instance.getBrackets()[0].stopLoss.id).to.equal("stopLoss2");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("cancels the rest of the entry once an exit fills", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CLOSED, ({ bracket, leg }) => {
+        expect(leg).to.equal("stopLoss");
+        expect(bracket.quantity).to.equal("4");
+        expect(broker.cancelOrder.args[0][0].id).to.equal("entry");
+        expect(broker.placeSellOrder.callCount).to.equal(1);
+        done();
+      });
+
+      instance
+        .place(options)
+        .then(() => {
+          partiallyFilled(tracker, "entry", "10", "4");
+          return flush();
+        })
+        .then(() => {
+          tracker.settle("stopLoss1", APIOrderState.filled, "4");
+          return flush();
+        })
+        .then(() => tracker.settle("entry", APIOrderState.cancelled, "4"));
+    });
+  });
+
+  describe("exits", () => {
+    beforeEach(done => {
+      instance.once(BRACKET_EVENTS.BRACKET_OPENED, () => done());
+      instance
+        .place(options)
+        .then(() => tracker.settle("entry", APIOrderState.filled, "10"));
+    });
+
+    it("closes once the stop-loss fills", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CLOSED, ({ bracket, leg }) => {
+        expect(leg).to.equal("stopLoss");
+        expect(bracket.state).to.equal("closed");
+        expect(broker.cancelOrder.callCount).to.equal(0);
+        expect(instance.getBrackets()).to.deep.equal([]);
+        done();
+      });
+
+      tracker.settle("stopLoss1", APIOrderState.filled, "10");
+    });
+
+    it("swaps the stop-loss for the take-profit at its price", done => {
+      broker.getQuote.resolves(quote("FB", "109.90", "110.10", "110.00"));
+
+      instance
+        .poll()
+        .then(() => flush())
+        .then(() => {
+          expect(broker.getQuote.args[0]).to.deep.equal([["FB"]]);
+          expect(broker.cancelOrder.args[0][0].id).to.equal("stopLoss1");
+          expect(broker.placeSellOrder.callCount).to.equal(1);
+          tracker.settle("stopLoss1", APIOrderState.cancelled);
+          return flush();
+        })
+        .then(() => {
+          expect(broker.placeSellOrder.args[1][0]).to.deep.equal({
+            instrument: "http://baz.qux",
+            symbol: "FB",
+            quantity: "10",
+            time_in_force: APIOrderTimeInForce.gtc,
+            type: APIOrderType.limit,
+            price: "110.00"
+          });
+          expect(instance.getBrackets()[0].stopLoss).to.equal(null);
+          expect(instance.getBrackets()[0].takeProfit.id).to.equal(
+            "takeProfit2"
+          );
+
+          broker.getQuote.resolves(quote("FB", "105.90", "106.10", "106.00"));
+          return instance.poll().then(() => flush());
+        })
+        .then(() => {
+          expect(broker.cancelOrder.args[1][0].id).to.equal("takeProfit2");
+          tracker.settle("takeProfit2", APIOrderState.cancelled);
+          return flush();
+        })
+        .then(() => {
+          expect(instance.getBrackets()[0].stopLoss.id).to.equal("stopLoss3");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("closes once the take-profit fills", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CLOSED, ({ leg }) => {
+        expect(leg).to.equal("takeProfit");
+        expect(instance.getBrackets()).to.deep.equal([]);
+        done();
+      });
+      broker.getQuote.resolves(quote("FB", "109.90", "110.10", "110.00"));
+
+      instance
+        .poll()
+        .then(() => flush())
+        .then(() => {
+          tracker.settle("stopLoss1", APIOrderState.cancelled);
+          return flush();
+        })
+        .then(() => tracker.settle("takeProfit2", APIOrderState.filled, "10"));
+    });
+
+    it("covers what's left when the exit fills some while swapped", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CLOSED, ({ leg }) => {
+        expect(leg).to.equal("takeProfit");
+        expect(broker.placeSellOrder.args[1][0]).to.include({
+          type: APIOrderType.limit,
+          quantity: "7"
+        });
+        done();
+      });
+      broker.getQuote.resolves(quote("FB", "109.90", "110.10", "110.00"));
+
+      instance
+        .poll()
+        .then(() => flush())
+        .then(() => {
+          tracker.settle("stopLoss1", APIOrderState.cancelled, "3");
+          return flush();
+        })
+        .then(() => tracker.settle("takeProfit2", APIOrderState.filled, "7"));
+    });
+
+    it("cancels the exit", done => {
+      instance.on(BRACKET_EVENTS.BRACKET_CANCELED, ({ bracket }) => {
+        expect(bracket.state).to.equal("canceled");
+        expect(broker.cancelOrder.callCount).to.equal(1);
+        expect(broker.cancelOrder.args[0][0].id).to.equal("stopLoss1");
+        done();
+      });
+
+      instance.cancel("entry");
+      flush().then(() => tracker.settle("stopLoss1", APIOrderState.cancelled));
+    });
+  });
+  describe("#cancel", () => {
+    it("cancels the entry while it's pending", done => {
+      instance
+        .place(options)
+        .then(() => instance.cancel("entry"))
+        .then(() => {
+          expect(broker.cancelOrder.args[0][0].id).to.equal("entry");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects for unknown brackets", done => {
+      instance.cancel("foo").catch(error => {
+        expect(error).to.be.an.instanceof(BracketOrderError);
+        expect(error.message).to.equal("No active bracket foo");
+        done();
+      });
+    });
+  });
+
+  describe("with PaperBroker", () => {
+    let requestDefaultsStub, paper, quoteStub;
+
+    beforeEach(done => {
+      let get = sinon.stub();
+      quoteStub = get.withArgs({
+        uri: API_URL + ENDPOINTS.QUOTES,
+        qs: { symbols: "FB" }
+      });
+      quoteStub.resolves(quote("FB", "99.00", "100.00"));
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post: sinon.stub() });
+
+      paper = new PaperBroker();
+      paper.authenticate({ authToken: "foobaz" });
+      paper.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      tracker.stop();
+      requestDefaultsStub.restore();
+    });
+
+    it("keeps one exit resting for the shares held", done => {
+      let errors = [];
+      tracker = new OrderTracker(paper, { minInterval: 1, maxInterval: 1 });
+      instance = new BracketOrderManager(paper, { tracker, interval: 1 });
+      instance.on(EVENTS.ERROR, error => errors.push(error));
+      instance.once(BRACKET_EVENTS.BRACKET_OPENED, ({ bracket }) => {
+        expect(bracket.stopLoss.state).to.equal(APIOrderState.confirmed);
+        quoteStub.resolves(quote("FB", "110.50", "111.00"));
+      });
+      instance.once(BRACKET_EVENTS.BRACKET_CLOSED, ({ bracket, leg }) => {
+        paper
+          .getPosition("FB")
+          .then(position => {
+            expect(leg).to.equal("takeProfit");
+            expect(bracket.state).to.equal("closed");
+            expect(position.quantity).to.equal("0.0000");
+            expect(errors).to.deep.equal([]);
+            done();
+          })
+          .catch(done);
+      });
+
+      instance.place({
+        side: APIOrderSide.buy,
+        entry: {
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "10",
+          price: "105.00"
+        },
+        takeProfitPrice: "110.00",
+        stopLossPrice: "95.00"
+      });
+    });
+  });
+});
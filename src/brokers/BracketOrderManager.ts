@@ -0,0 +1,538 @@
+import EventEmitter = require("events");
+
+import Decimal from "./Decimal";
+import OrderTracker, { ORDER_EVENTS, OrderEvent } from "./OrderTracker";
+import Robinhood, {
+  ERRORS,
+  EVENTS,
+  OrderLimitInterface,
+  OrderMarketInterface,
+  OrderStopMarketInterface
+} from "./Robinhood";
+import { BracketOrderError } from "./RobinhoodErrors";
+import {
+  APIOrderResponseInterface,
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+
+export type BracketState =
+  | "pending" // Waiting for the entry to fill
+  | "open" // Exits are placed
+  | "closed" // An exit filled
+  | "canceled";
+
+export type BracketLeg = "takeProfit" | "stopLoss";
+
+export interface BracketOrderOptions {
+  side: APIOrderSide; // Side of the entry, exits take the other side
+  entry: OrderMarketInterface | OrderLimitInterface;
+  takeProfitPrice: string; // Limit price of the take-profit exit
+  stopLossPrice: string; // Stop price of the stop-loss exit
+  exitTimeInForce?: APIOrderTimeInForce; // Defaults to "gtc"
+}
+
+export interface Bracket {
+  id: string; // Entry order ID
+  side: APIOrderSide;
+  symbol: string;
+  state: BracketState;
+  quantity: string; // Filled entry quantity covered by the exits
+  entry: APIOrderResponseInterface;
+  takeProfit: APIOrderResponseInterface | null;
+  stopLoss: APIOrderResponseInterface | null;
+}
+
+export interface BracketEvent {
+  bracket: Bracket;
+  leg?: BracketLeg; // Exit that closed the bracket
+}
+
+interface TrackedBracket extends Bracket {
+  options: BracketOrderOptions;
+  exits: { [orderId: string]: APIOrderResponseInterface }; // Every exit placed
+  legs: { [orderId: string]: BracketLeg }; // Leg of every exit placed
+  target: BracketLeg; // Exit that should be resting
+  closedBy: BracketLeg | null; // Leg of the exit that filled last
+  queue: Promise<void>; // Exit changes are made one at a time
+}
+
+export interface BracketOrderManagerOptions {
+  tracker?: OrderTracker; // Polls the orders, can be shared
+  interval?: number; // Milliseconds between quote polls
+}
+
+export const enum BRACKET_EVENTS {
+  BRACKET_CANCELED = "BRACKET_CANCELED",
+  BRACKET_CLOSED = "BRACKET_CLOSED",
+  BRACKET_OPENED = "BRACKET_OPENED"
+}
+
+const DEFAULT_OPTIONS: BracketOrderManagerOptions = {
+  interval: 1000 * 5 // 5 seconds
+};
+
+/**
+ * Client side bracket orders, Robinhood doesn't have them.
+ * Shares are held for every open sell so only one exit rests at a time:
+ * a stop-loss stop market order, swapped for a take-profit limit order while
+ * quotes are at the take-profit price. The exit covers what the entry has
+ * filled so far and is replaced as the entry fills, an exit filling cancels
+ * what's left of the entry.
+ */
+export default class BracketOrderManager extends EventEmitter {
+  protected broker: Robinhood;
+  protected tracker: OrderTracker;
+  protected options: BracketOrderManagerOptions;
+  protected brackets: { [bracketId: string]: TrackedBracket } = {};
+  protected timeout: NodeJS.Timer = null;
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  options {BracketOrderManagerOptions}
+   */
+  constructor(broker: Robinhood, options: BracketOrderManagerOptions = {}) {
+    super();
+
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+    this.tracker = this.options.tracker || new OrderTracker(broker);
+    this.tracker.on(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, (event: OrderEvent) =>
+      this.onPartiallyFilled(event.order)
+    );
+  }
+
+  /**
+   * Places the entry order
+   * @return Promise resolved with the bracket once the entry is placed
+   */
+  public place(options: BracketOrderOptions): Promise<Bracket> {
+    return this.placeOrder(options.side, options.entry).then(entry => {
+      let bracket: TrackedBracket = {
+        id: entry.id,
+        side: options.side,
+        symbol: options.entry.symbol.toUpperCase(),
+        state: "pending",
+        quantity: "0",
+        entry,
+        takeProfit: null,
+        stopLoss: null,
+        options,
+        exits: {},
+        legs: {},
+        target: "stopLoss",
+        closedBy: null,
+        queue: Promise.resolve()
+      };
+
+      this.brackets[bracket.id] = bracket;
+      this.tracker
+        .track(entry)
+        .then(order => this.onEntryDone(bracket, order))
+        .catch(error => this.emitError(error));
+      this.start();
+
+      return this.toBracket(bracket);
+    });
+  }
+
+  /**
+   * Cancels the entry if it hasn't filled yet, otherwise the exit.
+   * Shares filled before the entry is canceled still get an exit.
+   */
+  public cancel(bracketId: string): Promise<void> {
+    let bracket = this.brackets[bracketId];
+
+    if (!bracket) {
+      return Promise.reject(
+        new BracketOrderError(`No active bracket ${bracketId}`)
+      );
+    }
+
+    if (bracket.state === "pending") {
+      return this.broker.cancelOrder(bracket.entry).then(() => undefined);
+    }
+
+    return this.enqueue(bracket, () =>
+      this.cancelLeg(bracket, this.getRestingLeg(bracket)).then(() =>
+        this.finish(bracket, "canceled")
+      )
+    );
+  }
+
+  /**
+   * Stops polling quotes, orders are left in place
+   */
+  public stop(): void {
+    clearTimeout(this.timeout);
+    this.timeout = null;
+  }
+
+  public getBrackets(): Bracket[] {
+    return Object.keys(this.brackets).map(bracketId =>
+      this.toBracket(this.brackets[bracketId])
+    );
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected start(): void {
+    if (!this.timeout) {
+      this.schedule();
+    }
+  }
+
+  protected schedule(): void {
+    this.timeout = setTimeout(() => this.poll(), this.options.interval);
+  }
+
+  /**
+   * Picks the exit that should be resting from the latest quotes
+   */
+  protected poll(): Promise<void> {
+    let brackets = Object.keys(this.brackets).map(id => this.brackets[id]);
+
+    if (!brackets.length) {
+      this.timeout = null;
+      return Promise.resolve();
+    }
+
+    let symbols = Array.from(new Set(brackets.map(bracket => bracket.symbol)));
+
+    return this.broker
+      .getQuote(symbols)
+      .then(quotes => {
+        let prices: { [symbol: string]: string } = {};
+        quotes.results
+          .filter(quote => quote && quote.last_trade_price)
+          .forEach(quote => (prices[quote.symbol] = quote.last_trade_price));
+
+        brackets.filter(bracket => prices[bracket.symbol]).forEach(bracket => {
+          let target = this.getTarget(bracket, prices[bracket.symbol]);
+
+          if (target !== bracket.target) {
+            bracket.target = target;
+            this.enqueue(bracket, () => this.sync(bracket));
+          }
+        });
+      })
+      .catch(error => this.emitError(error))
+      .then(() => {
+        // Stopped while the quotes were in flight
+        if (this.timeout) {
+          this.schedule();
+        }
+      });
+  }
+
+  protected getTarget(bracket: TrackedBracket, price: string): BracketLeg {
+    let takeProfitPrice = bracket.options.takeProfitPrice;
+    let reached =
+      bracket.side === APIOrderSide.buy
+        ? new Decimal(price).gte(takeProfitPrice)
+        : new Decimal(price).lte(takeProfitPrice);
+
+    return reached ? "takeProfit" : "stopLoss";
+  }
+
+  protected onPartiallyFilled(order: APIOrderResponseInterface): void {
+    let bracket = this.brackets[order.id];
+
+    if (bracket) {
+      return this.onEntryPartiallyFilled(bracket, order);
+    }
+
+    bracket = this.findBracketByExit(order.id);
+
+    if (bracket) {
+      this.recordExit(bracket, order);
+    }
+  }
+
+  /**
+   * Covers what the entry has filled so far
+   */
+  protected onEntryPartiallyFilled(
+    bracket: TrackedBracket,
+    entry: APIOrderResponseInterface
+  ): void {
+    if (bracket.state !== "pending") {
+      return;
+    }
+
+    bracket.entry = entry;
+    bracket.quantity = new Decimal(entry.cumulative_quantity || "0").toString();
+    this.enqueue(bracket, () => this.sync(bracket));
+  }
+
+  protected onEntryDone(
+    bracket: TrackedBracket,
+    entry: APIOrderResponseInterface
+  ): Promise<void> {
+    bracket.entry = entry;
+    bracket.quantity = new Decimal(entry.cumulative_quantity || "0").toString();
+
+    return this.enqueue(bracket, () => {
+      bracket.state = "open";
+
+      return this.sync(bracket).then(() => {
+        // Finished when nothing filled or an exit covered all of it
+        if (this.brackets[bracket.id]) {
+          this.emit(BRACKET_EVENTS.BRACKET_OPENED, {
+            bracket: this.toBracket(bracket)
+          });
+        }
+      });
+    });
+  }
+
+  protected onExitDone(
+    bracket: TrackedBracket,
+    leg: BracketLeg,
+    order: APIOrderResponseInterface
+  ): void {
+    this.recordExit(bracket, order);
+
+    // Replaced or canceled by the manager
+    if (!bracket[leg] || bracket[leg].id !== order.id) {
+      return;
+    }
+
+    bracket[leg] = null;
+
+    if (order.state !== APIOrderState.filled) {
+      this.emitError(
+        new BracketOrderError(
+          `${bracket.symbol} bracket ${leg} order ${order.id} ` +
+            `was ${order.state}`
+        )
+      );
+      return;
+    }
+
+    this.enqueue(
+      bracket,
+      () =>
+        bracket.state === "pending"
+          ? this.broker.cancelOrder(bracket.entry)
+          : this.sync(bracket)
+    );
+  }
+
+  /**
+   * Makes the resting exit the target leg covering what's left of the entry,
+   * the bracket is done once the entry is and nothing is left
+   */
+  protected sync(bracket: TrackedBracket): Promise<void> {
+    // Closed or canceled by a change queued before this one
+    if (!this.brackets[bracket.id]) {
+      return Promise.resolve();
+    }
+
+    let resting = this.getRestingLeg(bracket);
+    let remaining = this.getRemainingQuantity(bracket);
+
+    if (
+      resting === bracket.target &&
+      remaining.gt(0) &&
+      this.getOpenQuantity(bracket[resting]).equals(remaining)
+    ) {
+      return Promise.resolve();
+    }
+
+    // Canceled first, the broker holds shares for it
+    return this.cancelLeg(bracket, resting).then(() => {
+      let left = this.getRemainingQuantity(bracket);
+
+      if (left.gt(0)) {
+        return this.placeLeg(bracket, bracket.target, left);
+      }
+
+      if (bracket.state === "open") {
+        this.finish(
+          bracket,
+          bracket.closedBy ? "closed" : "canceled",
+          bracket.closedBy
+        );
+      }
+    });
+  }
+
+  protected placeLeg(
+    bracket: TrackedBracket,
+    leg: BracketLeg,
+    quantity: Decimal
+  ): Promise<void> {
+    let options = bracket.options;
+    let exit = {
+      instrument: options.entry.instrument,
+      symbol: bracket.symbol,
+      quantity: quantity.toString(),
+      time_in_force: options.exitTimeInForce || APIOrderTimeInForce.gtc
+    };
+    let order: OrderLimitInterface | OrderStopMarketInterface =
+      leg === "takeProfit"
+        ? Object.assign(exit, {
+            type: APIOrderType.limit,
+            price: options.takeProfitPrice
+          })
+        : Object.assign(exit, {
+            type: APIOrderType.market,
+            trigger: APIOrderTrigger.stop,
+            stop_price: options.stopLossPrice,
+            price: null
+          });
+    let side =
+      bracket.side === APIOrderSide.buy ? APIOrderSide.sell : APIOrderSide.buy;
+
+    return this.placeOrder(side, order).then(placed => {
+      bracket[leg] = placed;
+      bracket.legs[placed.id] = leg;
+      this.recordExit(bracket, placed);
+
+      this.tracker
+        .track(placed)
+        .then(final => this.onExitDone(bracket, leg, final))
+        .catch(error => this.emitError(error));
+    });
+  }
+
+  /**
+   * Cancels an exit and waits for it to be done,
+   * it may have filled some more in the meantime
+   */
+  protected cancelLeg(
+    bracket: TrackedBracket,
+    leg: BracketLeg | null
+  ): Promise<void> {
+    let order = leg && bracket[leg];
+
+    if (!order) {
+      return Promise.resolve();
+    }
+
+    bracket[leg] = null;
+
+    // Canceling an order that's already done fails, tracking settles it
+    return this.broker
+      .cancelOrder(order)
+      .catch(error => this.emitError(error))
+      .then(() => this.tracker.track(order))
+      .then(final => this.recordExit(bracket, final));
+  }
+
+  /**
+   * Keeps the latest state of an exit, remembering its leg if it filled more
+   */
+  protected recordExit(
+    bracket: TrackedBracket,
+    order: APIOrderResponseInterface
+  ): void {
+    let previous = bracket.exits[order.id];
+    let leg = bracket.legs[order.id];
+
+    if (
+      new Decimal(order.cumulative_quantity || "0").gt(
+        (previous && previous.cumulative_quantity) || "0"
+      )
+    ) {
+      bracket.closedBy = leg;
+    }
+
+    bracket.exits[order.id] = order;
+
+    if (bracket[leg] && bracket[leg].id === order.id) {
+      bracket[leg] = order;
+    }
+  }
+
+  /**
+   * Entry quantity that hasn't been exited yet
+   */
+  protected getRemainingQuantity(bracket: TrackedBracket): Decimal {
+    return Object.keys(bracket.exits).reduce(
+      (remaining, orderId) =>
+        remaining.minus(bracket.exits[orderId].cumulative_quantity || "0"),
+      new Decimal(bracket.quantity)
+    );
+  }
+
+  protected getOpenQuantity(order: APIOrderResponseInterface): Decimal {
+    return new Decimal(order.quantity).minus(order.cumulative_quantity || "0");
+  }
+
+  protected getRestingLeg(bracket: TrackedBracket): BracketLeg | null {
+    return bracket.takeProfit
+      ? "takeProfit"
+      : bracket.stopLoss ? "stopLoss" : null;
+  }
+
+  protected placeOrder(
+    side: APIOrderSide,
+    order: OrderMarketInterface | OrderLimitInterface | OrderStopMarketInterface
+  ): Promise<APIOrderResponseInterface> {
+    return side === APIOrderSide.buy
+      ? this.broker.placeBuyOrder(order)
+      : this.broker.placeSellOrder(order);
+  }
+
+  protected finish(
+    bracket: TrackedBracket,
+    state: BracketState,
+    leg?: BracketLeg
+  ): void {
+    bracket.state = state;
+    delete this.brackets[bracket.id];
+
+    this.emit(
+      state === "closed"
+        ? BRACKET_EVENTS.BRACKET_CLOSED
+        : BRACKET_EVENTS.BRACKET_CANCELED,
+      { bracket: this.toBracket(bracket), leg }
+    );
+  }
+
+  protected enqueue(
+    bracket: TrackedBracket,
+    change: () => Promise<any>
+  ): Promise<void> {
+    bracket.queue = bracket.queue
+      .then(change)
+      .catch(error => this.emitError(error));
+
+    return bracket.queue;
+  }
+
+  protected findBracketByExit(orderId: string): TrackedBracket | null {
+    let bracketId = Object.keys(this.brackets).find(
+      id => !!this.brackets[id].exits[orderId]
+    );
+
+    return bracketId ? this.brackets[bracketId] : null;
+  }
+
+  protected toBracket(bracket: TrackedBracket): Bracket {
+    return {
+      id: bracket.id,
+      side: bracket.side,
+      symbol: bracket.symbol,
+      state: bracket.state,
+      quantity: bracket.quantity,
+      entry: bracket.entry,
+      takeProfit: bracket.takeProfit,
+      stopLoss: bracket.stopLoss
+    };
+  }
+
+  protected emitError(error: any): void {
+    this.emit(EVENTS.ERROR, {
+      type: ERRORS.BRACKET_ORDER,
+      message: error.message || error.detail
+    });
+  }
+}
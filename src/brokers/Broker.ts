@@ -0,0 +1,95 @@
+export type OrderSide = "buy" | "sell";
+
+export type OrderType = "market" | "limit";
+
+export type OrderTimeInForce = "gfd" | "gtc" | "ioc" | "fok" | "opg";
+
+export type OrderStatus =
+  | "pending"
+  | "open"
+  | "partially_filled"
+  | "filled"
+  | "canceled"
+  | "rejected";
+
+// Prices and quantities are numbers, or Decimals when using decimalNormalizers
+export interface Quote<N = number> {
+  symbol: string; // "FB"
+  bid: N; // 166.43
+  ask: N; // 166.44
+  last: N; // 166.29
+  previousClose: N; // 164.21
+  halted: boolean;
+  updatedAt: Date;
+}
+
+export interface Bar<N = number> {
+  symbol: string;
+  beginsAt: Date;
+  open: N;
+  high: N;
+  low: N;
+  close: N;
+  volume: number;
+}
+
+export interface OrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  type?: OrderType; // Defaults to "market"
+  price?: number; // Required for limit orders
+  stopPrice?: number; // Turns the order into a stop order
+  timeInForce?: OrderTimeInForce; // Defaults to "gfd"
+  extendedHours?: boolean;
+}
+
+export interface Fill<N = number> {
+  id: string;
+  price: N;
+  quantity: N;
+  timestamp: Date;
+}
+
+export interface Order<N = number> {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  status: OrderStatus;
+  quantity: N;
+  filledQuantity: N;
+  price: N | null;
+  stopPrice: N | null;
+  averagePrice: N | null;
+  timeInForce: OrderTimeInForce;
+  fills: Fill<N>[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Position<N = number> {
+  symbol: string;
+  quantity: N;
+  averagePrice: N;
+}
+
+export interface Account<N = number> {
+  id: string;
+  cash: N;
+  buyingPower: N;
+}
+
+/**
+ * Broker agnostic surface strategies should be written against,
+ * so live, paper and simulated brokers can be swapped for one another
+ */
+export interface Broker {
+  fetchQuote(symbol: string): Promise<Quote>;
+  submitOrder(order: OrderRequest): Promise<Order>;
+  fetchOrders(): Promise<Order[]>;
+  fetchOrder(orderId: string): Promise<Order>;
+  requestCancel(orderId: string): Promise<Order>;
+  fetchPositions(): Promise<Position[]>;
+  fetchAccount(): Promise<Account>;
+}
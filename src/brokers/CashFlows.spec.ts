@@ -0,0 +1,79 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import { getTradingProfit, summarizeCashFlows } from "./CashFlows";
+import {
+  APIACHTransferDirection,
+  APIACHTransferState
+} from "./RobinhoodInterfaces";
+
+function transfer(direction, amount, state, createdAt) {
+  return { direction, amount, state, created_at: createdAt } as any;
+}
+
+describe("CashFlows", () => {
+  let transfers;
+
+  beforeEach(() => {
+    transfers = [
+      transfer(
+        APIACHTransferDirection.deposit,
+        "1000.00",
+        APIACHTransferState.completed,
+        "2018-01-02T15:00:00Z"
+      ),
+      transfer(
+        APIACHTransferDirection.withdraw,
+        "200.00",
+        APIACHTransferState.completed,
+        "2018-01-20T15:00:00Z"
+      ),
+      transfer(
+        APIACHTransferDirection.deposit,
+        "500.00",
+        APIACHTransferState.completed,
+        "2018-02-01T15:00:00Z"
+      ),
+      transfer(
+        APIACHTransferDirection.deposit,
+        "300.00",
+        APIACHTransferState.reversed,
+        "2018-02-03T15:00:00Z"
+      ),
+      transfer(
+        APIACHTransferDirection.withdraw,
+        "50.00",
+        APIACHTransferState.pending,
+        "2018-02-05T15:00:00Z"
+      )
+    ];
+  });
+
+  describe("#summarizeCashFlows", () => {
+    it("totals completed transfers by month", () => {
+      expect(summarizeCashFlows(transfers)).to.deep.equal({
+        deposits: "1500.00",
+        withdrawals: "200.00",
+        net: "1300.00",
+        pending: { deposits: "0.00", withdrawals: "50.00", net: "-50.00" },
+        byMonth: {
+          "2018-01": {
+            deposits: "1000.00",
+            withdrawals: "200.00",
+            net: "800.00"
+          },
+          "2018-02": { deposits: "500.00", withdrawals: "0.00", net: "500.00" }
+        }
+      });
+    });
+  });
+
+  describe("#getTradingProfit", () => {
+    it("leaves out money that was moved in or out", () => {
+      let cashFlows = summarizeCashFlows(transfers);
+
+      expect(getTradingProfit("1000", "2450.50", cashFlows)).to.equal("150.50");
+      expect(getTradingProfit(1000, 2000, cashFlows)).to.equal("-300.00");
+    });
+  });
+});
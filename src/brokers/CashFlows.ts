@@ -0,0 +1,100 @@
+import Decimal, { DecimalValue } from "./Decimal";
+import {
+  APIACHTransferDirection,
+  APIACHTransferInterface,
+  APIACHTransferState
+} from "./RobinhoodInterfaces";
+
+export interface CashFlowTotals {
+  deposits: string; // "1500.00"
+  withdrawals: string; // "200.00"
+  net: string; // Deposits minus withdrawals, "1300.00"
+}
+
+export interface CashFlowSummary extends CashFlowTotals {
+  pending: CashFlowTotals; // Requested or pending, not completed yet
+  byMonth: { [month: string]: CashFlowTotals }; // By creation, "2018-01"
+}
+
+interface Totals {
+  deposits: Decimal;
+  withdrawals: Decimal;
+}
+
+function emptyTotals(): Totals {
+  return { deposits: new Decimal(0), withdrawals: new Decimal(0) };
+}
+
+function add(totals: Totals, transfer: APIACHTransferInterface): void {
+  if (transfer.direction === APIACHTransferDirection.deposit) {
+    totals.deposits = totals.deposits.plus(transfer.amount);
+  } else {
+    totals.withdrawals = totals.withdrawals.plus(transfer.amount);
+  }
+}
+
+function toStrings(totals: Totals): CashFlowTotals {
+  return {
+    deposits: totals.deposits.toFixed(2),
+    withdrawals: totals.withdrawals.toFixed(2),
+    net: totals.deposits.minus(totals.withdrawals).toFixed(2)
+  };
+}
+
+/**
+ * Totals money moved in and out of the account. Only completed transfers
+ * count, canceled, failed and reversed ones never moved money.
+ * @param  transfers {Array} From Robinhood#getACHTransfers or
+ *         #iterateACHTransfers
+ */
+export function summarizeCashFlows(
+  transfers: APIACHTransferInterface[]
+): CashFlowSummary {
+  let completed = emptyTotals();
+  let pending = emptyTotals();
+  let byMonth: { [month: string]: Totals } = {};
+
+  transfers.forEach(transfer => {
+    if (
+      transfer.state === APIACHTransferState.requested ||
+      transfer.state === APIACHTransferState.pending
+    ) {
+      add(pending, transfer);
+    } else if (transfer.state === APIACHTransferState.completed) {
+      let month = transfer.created_at.slice(0, 7);
+
+      byMonth[month] = byMonth[month] || emptyTotals();
+      add(completed, transfer);
+      add(byMonth[month], transfer);
+    }
+  });
+
+  return Object.assign(toStrings(completed), {
+    pending: toStrings(pending),
+    byMonth: Object.keys(byMonth)
+      .sort()
+      .reduce(
+        (result, month) =>
+          Object.assign(result, { [month]: toStrings(byMonth[month]) }),
+        {}
+      )
+  });
+}
+
+/**
+ * Profit from trading over a period, the change in equity
+ * that didn't come from deposits or withdrawals
+ * @param  startEquity {Decimal|String|Number} Equity when the period started
+ * @param  endEquity {Decimal|String|Number} Equity when the period ended
+ * @param  cashFlows {CashFlowSummary} Transfers completed during the period
+ */
+export function getTradingProfit(
+  startEquity: DecimalValue,
+  endEquity: DecimalValue,
+  cashFlows: CashFlowTotals
+): string {
+  return new Decimal(endEquity)
+    .minus(startEquity)
+    .minus(cashFlows.net)
+    .toFixed(2);
+}
@@ -0,0 +1,134 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import Decimal from "./Decimal";
+
+describe("Decimal", () => {
+  describe("#constructor", () => {
+    it("parses API strings exactly", () => {
+      expect(new Decimal("23.68000000").toString()).to.equal("23.68000000");
+      expect(new Decimal("-1692.6900").toString()).to.equal("-1692.6900");
+      expect(new Decimal(".5").toString()).to.equal("0.5");
+    });
+
+    it("parses numbers", () => {
+      expect(new Decimal(0.1).toString()).to.equal("0.1");
+      expect(new Decimal(1e-7).toString()).to.equal("0.0000001");
+      expect(new Decimal(-0).toString()).to.equal("0");
+    });
+
+    it("throws on invalid values", () => {
+      expect(() => new Decimal("foo")).to.throw('Invalid decimal: "foo"');
+      expect(() => new Decimal(".")).to.throw();
+    });
+  });
+
+  describe("#parse", () => {
+    it("passes null along", () => {
+      expect(Decimal.parse(null)).to.equal(null);
+      expect(Decimal.parse("1.5").equals("1.50")).to.equal(true);
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("adds without rounding errors", () => {
+      expect(new Decimal("0.1").plus("0.2").toString()).to.equal("0.3");
+      expect(new Decimal("-1692.6900").plus("307.31").toString()).to.equal(
+        "-1385.3800"
+      );
+    });
+
+    it("subtracts", () => {
+      expect(new Decimal("0.3").minus("0.1").toString()).to.equal("0.2");
+      expect(new Decimal("1").minus("1.25").toString()).to.equal("-0.25");
+    });
+
+    it("multiplies", () => {
+      expect(new Decimal("166.44").times("3").toString()).to.equal("499.32");
+      expect(new Decimal("-1.1").times("1.1").toString()).to.equal("-1.21");
+    });
+
+    it("divides with rounding", () => {
+      expect(new Decimal("10").dividedBy("4", 2).toString()).to.equal("2.50");
+      expect(new Decimal("1").dividedBy("3").toString()).to.equal("0.33333333");
+      expect(new Decimal("2").dividedBy("3", 2).toString()).to.equal("0.67");
+      expect(new Decimal("-2").dividedBy("3", 2, "down").toString()).to.equal(
+        "-0.66"
+      );
+      expect(() => new Decimal("1").dividedBy("0")).to.throw(
+        "Division by zero"
+      );
+    });
+
+    it("keeps precision past what floats can hold", () => {
+      expect(new Decimal("90071992547409.93").plus("0.01").toString()).to.equal(
+        "90071992547409.94"
+      );
+    });
+  });
+
+  describe("#round", () => {
+    it("rounds half up by default", () => {
+      expect(new Decimal("2.345").round(2).toString()).to.equal("2.35");
+      expect(new Decimal("-2.345").round(2).toString()).to.equal("-2.35");
+    });
+
+    it("supports other rounding modes", () => {
+      expect(new Decimal("2.345").round(2, "half_even").toString()).to.equal(
+        "2.34"
+      );
+      expect(new Decimal("-2.341").round(2, "floor").toString()).to.equal(
+        "-2.35"
+      );
+      expect(new Decimal("-2.349").round(2, "ceil").toString()).to.equal(
+        "-2.34"
+      );
+      expect(new Decimal("2.341").round(2, "up").toString()).to.equal("2.35");
+    });
+  });
+
+  describe("#roundToTick", () => {
+    it("rounds to a multiple of the tick size", () => {
+      expect(new Decimal("23.456").roundToTick("0.05").toString()).to.equal(
+        "23.45"
+      );
+      expect(
+        new Decimal("23.476").roundToTick("0.05", "floor").toString()
+      ).to.equal("23.45");
+      expect(
+        new Decimal("23.451").roundToTick("0.01", "ceil").toString()
+      ).to.equal("23.46");
+    });
+  });
+
+  describe("#compareTo", () => {
+    it("compares values regardless of scale", () => {
+      expect(new Decimal("1.50").compareTo("1.5")).to.equal(0);
+      expect(new Decimal("-1").compareTo("0.5")).to.equal(-1);
+      expect(new Decimal("-1").compareTo("-2")).to.equal(1);
+      expect(new Decimal("10").gt("9.99")).to.equal(true);
+      expect(new Decimal("10").lte("10.00")).to.equal(true);
+    });
+
+    it("finds the smallest and largest value", () => {
+      expect(Decimal.min("3", "-1.5", "2").toString()).to.equal("-1.5");
+      expect(Decimal.max("3", "-1.5", "2").toString()).to.equal("3");
+    });
+  });
+
+  describe("#toFixed", () => {
+    it("formats with a fixed number of places", () => {
+      expect(new Decimal("23.68000000").toFixed(2)).to.equal("23.68");
+      expect(new Decimal("0.005").toFixed(2)).to.equal("0.01");
+      expect(new Decimal("-0.004").toFixed(2)).to.equal("0.00");
+      expect(new Decimal("5").toFixed(4)).to.equal("5.0000");
+      expect(new Decimal("5.5").toFixed(0)).to.equal("6");
+    });
+
+    it("serializes to JSON as a string", () => {
+      expect(JSON.stringify({ price: new Decimal("1.10") })).to.equal(
+        '{"price":"1.10"}'
+      );
+    });
+  });
+});
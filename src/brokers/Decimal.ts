@@ -0,0 +1,360 @@
+export type DecimalValue = Decimal | string | number;
+
+export type RoundingMode =
+  | "down" // Towards zero
+  | "up" // Away from zero
+  | "floor"
+  | "ceil"
+  | "half_up"
+  | "half_even";
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Exact decimal number for prices, quantities and money amounts,
+ * the API sends them as strings like "23.68000000" which floats can't hold.
+ * Values are immutable, every operation returns a new Decimal.
+ */
+export default class Decimal {
+  // Value is sign * coefficient / 10 ^ scale
+  protected sign: number;
+  protected coefficient: string; // Digits without leading zeros
+  protected scale: number; // Digits after the decimal point
+
+  constructor(value: DecimalValue) {
+    if (value instanceof Decimal) {
+      this.sign = value.sign;
+      this.coefficient = value.coefficient;
+      this.scale = value.scale;
+      return;
+    }
+
+    let match = DECIMAL_PATTERN.exec(String(value).trim());
+
+    if (!match || !(match[2] || match[3])) {
+      throw new Error(`Invalid decimal: "${value}"`);
+    }
+
+    let [, sign, integer, fraction = "", exponent = "0"] = match;
+    let scale = fraction.length - parseInt(exponent, 10);
+    let digits = integer + fraction;
+
+    if (scale < 0) {
+      digits += repeat("0", -scale);
+      scale = 0;
+    }
+
+    this.coefficient = trimLeadingZeros(digits);
+    this.scale = scale;
+    this.sign = this.coefficient === "0" || sign !== "-" ? 1 : -1;
+  }
+
+  /**
+   * Parses API values, passing null along
+   */
+  public static parse(value: DecimalValue | null): Decimal | null {
+    return value == null ? null : new Decimal(value);
+  }
+
+  public static min(...values: DecimalValue[]): Decimal {
+    return values
+      .map(value => new Decimal(value))
+      .reduce((min, value) => (value.lt(min) ? value : min));
+  }
+
+  public static max(...values: DecimalValue[]): Decimal {
+    return values
+      .map(value => new Decimal(value))
+      .reduce((max, value) => (value.gt(max) ? value : max));
+  }
+
+  public plus(value: DecimalValue): Decimal {
+    let other = new Decimal(value);
+    let scale = Math.max(this.scale, other.scale);
+    let a = this.rescale(scale);
+    let b = other.rescale(scale);
+
+    if (this.sign === other.sign) {
+      return create(this.sign, addDigits(a, b), scale);
+    }
+
+    // Signs differ, subtract the smaller magnitude from the larger
+    return compareDigits(a, b) >= 0
+      ? create(this.sign, subtractDigits(a, b), scale)
+      : create(other.sign, subtractDigits(b, a), scale);
+  }
+
+  public minus(value: DecimalValue): Decimal {
+    return this.plus(new Decimal(value).negate());
+  }
+
+  public times(value: DecimalValue): Decimal {
+    let other = new Decimal(value);
+
+    return create(
+      this.sign * other.sign,
+      multiplyDigits(this.coefficient, other.coefficient),
+      this.scale + other.scale
+    );
+  }
+
+  /**
+   * @param  value {DecimalValue} Divisor
+   * @param  places {Number} Digits kept after the decimal point
+   * @param  rounding {RoundingMode} How the digits left out are rounded
+   */
+  public dividedBy(
+    value: DecimalValue,
+    places: number = 8,
+    rounding: RoundingMode = "half_even"
+  ): Decimal {
+    let other = new Decimal(value);
+
+    if (other.isZero()) {
+      throw new Error("Division by zero");
+    }
+
+    // (a / 10^sa) / (b / 10^sb) * 10^places = a * 10^(sb + places) / b * 10^sa
+    let numerator = this.coefficient + repeat("0", other.scale + places);
+    let denominator = other.coefficient + repeat("0", this.scale);
+    let sign = this.sign * other.sign;
+
+    return create(
+      sign,
+      divideRounded(numerator, denominator, sign, rounding),
+      places
+    );
+  }
+
+  public negate(): Decimal {
+    return create(-this.sign, this.coefficient, this.scale);
+  }
+
+  public abs(): Decimal {
+    return this.sign < 0 ? this.negate() : this;
+  }
+
+  /**
+   * Rounds to a number of digits after the decimal point
+   */
+  public round(places: number, rounding: RoundingMode = "half_up"): Decimal {
+    if (this.scale <= places) {
+      return this;
+    }
+
+    let divisor = "1" + repeat("0", this.scale - places);
+
+    return create(
+      this.sign,
+      divideRounded(this.coefficient, divisor, this.sign, rounding),
+      places
+    );
+  }
+
+  /**
+   * Rounds to a multiple of the tick size,
+   * e.g. 23.456 with a tick of 0.05 is 23.45
+   */
+  public roundToTick(
+    tick: DecimalValue,
+    rounding: RoundingMode = "half_up"
+  ): Decimal {
+    return this.dividedBy(tick, 0, rounding).times(tick);
+  }
+
+  /**
+   * @return -1, 0 or 1
+   */
+  public compareTo(value: DecimalValue): number {
+    let other = new Decimal(value);
+
+    if (this.sign !== other.sign) {
+      return this.sign;
+    }
+
+    let scale = Math.max(this.scale, other.scale);
+
+    return this.sign * compareDigits(this.rescale(scale), other.rescale(scale));
+  }
+
+  public equals(value: DecimalValue): boolean {
+    return this.compareTo(value) === 0;
+  }
+
+  public lt(value: DecimalValue): boolean {
+    return this.compareTo(value) < 0;
+  }
+
+  public lte(value: DecimalValue): boolean {
+    return this.compareTo(value) <= 0;
+  }
+
+  public gt(value: DecimalValue): boolean {
+    return this.compareTo(value) > 0;
+  }
+
+  public gte(value: DecimalValue): boolean {
+    return this.compareTo(value) >= 0;
+  }
+
+  public isZero(): boolean {
+    return this.coefficient === "0";
+  }
+
+  public isNegative(): boolean {
+    return this.sign < 0;
+  }
+
+  /**
+   * Formats with a fixed number of digits after the decimal point,
+   * the way the API expects prices, e.g. "23.68"
+   */
+  public toFixed(places: number, rounding: RoundingMode = "half_up"): string {
+    let rounded = this.round(places, rounding);
+    let digits = rounded.rescale(places);
+    digits = repeat("0", places + 1 - digits.length) + digits;
+
+    let integer = digits.slice(0, digits.length - places);
+    let fraction = digits.slice(digits.length - places);
+
+    return (
+      (rounded.sign < 0 ? "-" : "") + integer + (places ? "." + fraction : "")
+    );
+  }
+
+  public toString(): string {
+    return this.toFixed(this.scale);
+  }
+
+  public toNumber(): number {
+    return parseFloat(this.toString());
+  }
+
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  /**
+   * Coefficient with enough trailing zeros to have the given scale
+   */
+  protected rescale(scale: number): string {
+    return trimLeadingZeros(this.coefficient + repeat("0", scale - this.scale));
+  }
+}
+
+function create(sign: number, coefficient: string, scale: number): Decimal {
+  let decimal = Object.create(Decimal.prototype);
+  decimal.coefficient = trimLeadingZeros(coefficient);
+  decimal.scale = scale;
+  decimal.sign = decimal.coefficient === "0" ? 1 : sign;
+
+  return decimal;
+}
+
+function repeat(value: string, count: number): string {
+  return count > 0 ? new Array(count + 1).join(value) : "";
+}
+
+function trimLeadingZeros(digits: string): string {
+  return digits.replace(/^0+/, "") || "0";
+}
+
+function compareDigits(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return a.length > b.length ? 1 : -1;
+  }
+
+  return a === b ? 0 : a > b ? 1 : -1;
+}
+
+function addDigits(a: string, b: string): string {
+  let result = "";
+  let carry = 0;
+
+  for (let i = a.length - 1, j = b.length - 1; i >= 0 || j >= 0; i--, j--) {
+    let sum = carry + (i >= 0 ? +a[i] : 0) + (j >= 0 ? +b[j] : 0);
+    result = sum % 10 + result;
+    carry = sum >= 10 ? 1 : 0;
+  }
+
+  return carry ? "1" + result : result;
+}
+
+/**
+ * a - b, where a >= b
+ */
+function subtractDigits(a: string, b: string): string {
+  let result = "";
+  let borrow = 0;
+
+  for (let i = a.length - 1, j = b.length - 1; i >= 0; i--, j--) {
+    let difference = +a[i] - borrow - (j >= 0 ? +b[j] : 0);
+    borrow = difference < 0 ? 1 : 0;
+    result = difference + borrow * 10 + result;
+  }
+
+  return trimLeadingZeros(result);
+}
+
+function multiplyDigits(a: string, b: string): string {
+  let products = new Array(a.length + b.length).fill(0);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      let sum = products[i + j + 1] + +a[i] * +b[j];
+      products[i + j + 1] = sum % 10;
+      products[i + j] += Math.floor(sum / 10);
+    }
+  }
+
+  return trimLeadingZeros(products.join(""));
+}
+
+/**
+ * Long division of a by b, the quotient is rounded
+ * using the remainder and the sign of the result
+ */
+function divideRounded(
+  a: string,
+  b: string,
+  sign: number,
+  rounding: RoundingMode
+): string {
+  let quotient = "";
+  let remainder = "0";
+
+  for (let digit of a) {
+    remainder = trimLeadingZeros(remainder + digit);
+
+    let count = 0;
+    while (compareDigits(remainder, b) >= 0) {
+      remainder = subtractDigits(remainder, b);
+      count++;
+    }
+
+    quotient += count;
+  }
+
+  quotient = trimLeadingZeros(quotient);
+
+  if (remainder === "0") {
+    return quotient;
+  }
+
+  let half = compareDigits(addDigits(remainder, remainder), b);
+  let isOdd = +quotient[quotient.length - 1] % 2 === 1;
+  let roundAway = {
+    down: false,
+    up: true,
+    floor: sign < 0,
+    ceil: sign > 0,
+    half_up: half >= 0,
+    half_even: half > 0 || (half === 0 && isOdd)
+  }[rounding];
+
+  return roundAway ? addDigits(quotient, "1") : quotient;
+}
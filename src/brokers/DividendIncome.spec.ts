@@ -0,0 +1,106 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import { projectDividendIncome, summarizeDividends } from "./DividendIncome";
+import { APIDividendState } from "./RobinhoodInterfaces";
+
+function dividend(symbol, payableDate, amount, rate, state, withholding = "0") {
+  return {
+    symbol,
+    amount,
+    rate,
+    withholding,
+    payable_date: payableDate,
+    state
+  } as any;
+}
+
+describe("DividendIncome", () => {
+  let dividends;
+
+  beforeEach(() => {
+    dividends = [
+      dividend("FB", "2017-05-15", "1.00", "0.1000", APIDividendState.paid),
+      dividend("FB", "2017-08-15", "1.00", "0.1000", APIDividendState.paid),
+      dividend(
+        "FB",
+        "2017-11-15",
+        "1.20",
+        "0.1200",
+        APIDividendState.reinvested,
+        "0.20"
+      ),
+      dividend("FB", "2018-02-15", "1.20", "0.1200", APIDividendState.pending),
+      dividend("AAPL", "2017-11-15", "6.30", "0.6300", APIDividendState.paid),
+      dividend("AAPL", "2017-08-15", "9.99", "0.6300", APIDividendState.voided)
+    ];
+  });
+
+  describe("#summarizeDividends", () => {
+    it("totals paid dividends by symbol and month", () => {
+      expect(summarizeDividends(dividends)).to.deep.equal({
+        total: "9.30",
+        pending: "1.20",
+        bySymbol: { AAPL: "6.30", FB: "3.00" },
+        byMonth: { "2017-05": "1.00", "2017-08": "1.00", "2017-11": "7.30" }
+      });
+    });
+
+    it("handles no dividends", () => {
+      expect(summarizeDividends([])).to.deep.equal({
+        total: "0.00",
+        pending: "0.00",
+        bySymbol: {},
+        byMonth: {}
+      });
+    });
+  });
+
+  describe("#projectDividendIncome", () => {
+    let asOf;
+
+    beforeEach(() => {
+      asOf = new Date("2018-01-31T00:00:00Z");
+    });
+
+    it("expects the latest rate as often as the last 12 months", () => {
+      let projection = projectDividendIncome(
+        dividends,
+        [{ symbol: "fb", quantity: "10" }, { symbol: "AAPL", quantity: 5 }],
+        asOf
+      );
+
+      // FB paid 3 times and announced 0.12, AAPL paid once
+      expect(projection).to.deep.equal({
+        total: "6.75",
+        bySymbol: { AAPL: "3.15", FB: "3.60" }
+      });
+    });
+
+    it("expects the latest dividend's withholding to continue", () => {
+      let projection = projectDividendIncome(
+        dividends.filter(
+          dividend => dividend.state !== APIDividendState.pending
+        ),
+        [{ symbol: "FB", quantity: "10" }],
+        asOf
+      );
+
+      // 0.20 of the latest 1.20 was withheld, 0.12 * 5 / 6 = 0.10 net
+      expect(projection).to.deep.equal({
+        total: "3.00",
+        bySymbol: { FB: "3.00" }
+      });
+    });
+
+    it("leaves out symbols that haven't paid lately", () => {
+      let projection = projectDividendIncome(
+        dividends,
+        [{ symbol: "AAPL", quantity: 5 }, { symbol: "MSFT", quantity: 1 }],
+        new Date("2019-01-31T00:00:00Z")
+      );
+
+      expect(projection).to.deep.equal({ total: "0.00", bySymbol: {} });
+    });
+  });
+});
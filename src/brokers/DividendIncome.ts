@@ -0,0 +1,151 @@
+import Decimal, { DecimalValue } from "./Decimal";
+import { DividendInterface } from "./Robinhood";
+import { APIDividendState } from "./RobinhoodInterfaces";
+
+export interface DividendIncomeSummary {
+  total: string; // Paid and reinvested, net of withholding, "12.34"
+  pending: string; // Announced but not paid yet
+  bySymbol: { [symbol: string]: string }; // { FB: "3.50" }
+  byMonth: { [month: string]: string }; // By payable month, "2017-11"
+}
+
+export interface DividendIncomeProjection {
+  total: string; // Expected over the next 12 months, net of withholding
+  bySymbol: { [symbol: string]: string };
+}
+
+export interface DividendPosition {
+  symbol: string;
+  quantity: DecimalValue; // Shares currently held
+}
+
+const YEAR = 1000 * 60 * 60 * 24 * 365;
+
+function isPaid(dividend: DividendInterface): boolean {
+  return (
+    dividend.state === APIDividendState.paid ||
+    dividend.state === APIDividendState.reinvested
+  );
+}
+
+/**
+ * Rate per share after withholding at the same share of the amount
+ */
+function netRate(dividend: DividendInterface): Decimal {
+  let amount = new Decimal(dividend.amount);
+  let rate = new Decimal(dividend.rate);
+
+  if (amount.isZero()) {
+    return rate;
+  }
+
+  return rate.times(
+    amount.minus(dividend.withholding || "0").dividedBy(amount)
+  );
+}
+
+function add(
+  totals: { [key: string]: Decimal },
+  key: string,
+  value: Decimal
+): void {
+  totals[key] = (totals[key] || new Decimal(0)).plus(value);
+}
+
+function toStrings(totals: {
+  [key: string]: Decimal;
+}): { [key: string]: string } {
+  return Object.keys(totals)
+    .sort()
+    .reduce(
+      (result, key) => Object.assign(result, { [key]: totals[key].toFixed(2) }),
+      {}
+    );
+}
+
+/**
+ * Totals dividend income by symbol and by payable month,
+ * voided dividends are left out
+ * @param  dividends {Array} From Robinhood#getDividends or #iterateDividends
+ */
+export function summarizeDividends(
+  dividends: DividendInterface[]
+): DividendIncomeSummary {
+  let total = new Decimal(0);
+  let pending = new Decimal(0);
+  let bySymbol: { [symbol: string]: Decimal } = {};
+  let byMonth: { [month: string]: Decimal } = {};
+
+  dividends.forEach(dividend => {
+    let amount = new Decimal(dividend.amount).minus(
+      dividend.withholding || "0"
+    );
+
+    if (dividend.state === APIDividendState.pending) {
+      pending = pending.plus(amount);
+    } else if (isPaid(dividend)) {
+      total = total.plus(amount);
+      add(bySymbol, dividend.symbol, amount);
+      add(byMonth, dividend.payable_date.slice(0, 7), amount);
+    }
+  });
+
+  return {
+    total: total.toFixed(2),
+    pending: pending.toFixed(2),
+    bySymbol: toStrings(bySymbol),
+    byMonth: toStrings(byMonth)
+  };
+}
+
+/**
+ * Projects the next 12 months of income from current positions.
+ * Each symbol is expected to keep paying its latest rate as often as it paid
+ * over the last 12 months, symbols that haven't paid in that time are left out.
+ * Like the summary it's net of withholding, the latest dividend's share of it
+ * is expected to be withheld from the rest.
+ * @param  dividends {Array} Dividend history
+ * @param  positions {Array} Current positions
+ * @param  asOf {Date} Defaults to now
+ */
+export function projectDividendIncome(
+  dividends: DividendInterface[],
+  positions: DividendPosition[],
+  asOf: Date = new Date()
+): DividendIncomeProjection {
+  let today = asOf.toISOString().slice(0, 10);
+  let yearAgo = new Date(asOf.getTime() - YEAR).toISOString().slice(0, 10);
+  let total = new Decimal(0);
+  let bySymbol: { [symbol: string]: Decimal } = {};
+
+  positions.forEach(position => {
+    let symbol = position.symbol.toUpperCase();
+    let quantity = new Decimal(position.quantity);
+    let recent = dividends
+      .filter(
+        dividend =>
+          dividend.symbol === symbol &&
+          dividend.state !== APIDividendState.voided &&
+          dividend.payable_date > yearAgo
+      )
+      .sort((a, b) => (a.payable_date < b.payable_date ? -1 : 1));
+
+    if (!recent.length || !quantity.gt(0)) {
+      return;
+    }
+
+    // Announced dividends count for the rate but not the frequency
+    let frequency = Math.max(
+      recent.filter(dividend => dividend.payable_date <= today).length,
+      1
+    );
+    let income = netRate(recent[recent.length - 1])
+      .times(quantity)
+      .times(frequency);
+
+    total = total.plus(income);
+    add(bySymbol, symbol, income);
+  });
+
+  return { total: total.toFixed(2), bySymbol: toStrings(bySymbol) };
+}
@@ -0,0 +1,171 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import MarketCalendar from "./MarketCalendar";
+
+const HOURS = {
+  "2018-02-02": {
+    date: "2018-02-02",
+    is_open: true,
+    opens_at: "2018-02-02T14:30:00Z",
+    closes_at: "2018-02-02T21:00:00Z",
+    extended_opens_at: "2018-02-02T14:00:00Z",
+    extended_closes_at: "2018-02-02T23:00:00Z",
+    next_open_hours: "https://api.robinhood.com/markets/XNYS/hours/2018-02-05/",
+    previous_open_hours:
+      "https://api.robinhood.com/markets/XNYS/hours/2018-02-01/"
+  },
+  "2018-02-03": {
+    date: "2018-02-03",
+    is_open: false,
+    opens_at: null,
+    closes_at: null,
+    extended_opens_at: null,
+    extended_closes_at: null,
+    next_open_hours: "https://api.robinhood.com/markets/XNYS/hours/2018-02-05/",
+    previous_open_hours:
+      "https://api.robinhood.com/markets/XNYS/hours/2018-02-02/"
+  },
+  "2018-02-05": {
+    date: "2018-02-05",
+    is_open: true,
+    opens_at: "2018-02-05T14:30:00Z",
+    closes_at: "2018-02-05T21:00:00Z",
+    extended_opens_at: "2018-02-05T14:00:00Z",
+    extended_closes_at: "2018-02-05T23:00:00Z",
+    next_open_hours: "https://api.robinhood.com/markets/XNYS/hours/2018-02-06/",
+    previous_open_hours:
+      "https://api.robinhood.com/markets/XNYS/hours/2018-02-02/"
+  }
+};
+
+describe("MarketCalendar", () => {
+  let broker, instance;
+
+  beforeEach(() => {
+    broker = {
+      getMarketHours: sinon
+        .stub()
+        .callsFake((_market, date) => Promise.resolve(HOURS[date]))
+    };
+    instance = new MarketCalendar(broker);
+  });
+
+  describe("#getHours", () => {
+    it("requests the day in the market's time zone", done => {
+      // Evening in New York is already the next day in UTC
+      instance
+        .getHours(new Date("2018-02-03T02:00:00Z"))
+        .then(hours => {
+          expect(hours.date).to.equal("2018-02-02");
+          expect(broker.getMarketHours.args[0]).to.deep.equal([
+            "XNYS",
+            "2018-02-02"
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("caches hours per market and day", done => {
+      Promise.all([
+        instance.getHours("2018-02-02"),
+        instance.getHours("2018-02-02", "/markets/XNYS/"),
+        instance.getHours("2018-02-02", "XNAS")
+      ])
+        .then(() => {
+          expect(broker.getMarketHours.args).to.deep.equal([
+            ["XNYS", "2018-02-02"],
+            ["XNAS", "2018-02-02"]
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("doesn't cache failures", done => {
+      broker.getMarketHours.onFirstCall().rejects(new Error("Nope"));
+
+      instance
+        .getHours("2018-02-02")
+        .catch(() => instance.getHours("2018-02-02"))
+        .then(hours => {
+          expect(hours.date).to.equal("2018-02-02");
+          expect(broker.getMarketHours.callCount).to.equal(2);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#isOpen", () => {
+    it("is open during regular hours", done => {
+      Promise.all([
+        instance.isOpen(new Date("2018-02-02T14:29:59Z")),
+        instance.isOpen(new Date("2018-02-02T14:30:00Z")),
+        instance.isOpen(new Date("2018-02-02T21:00:00Z")),
+        instance.isOpen(new Date("2018-02-03T16:00:00Z"))
+      ])
+        .then(open => {
+          expect(open).to.deep.equal([false, true, false, false]);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#isExtendedHours", () => {
+    it("is only on outside regular hours", done => {
+      Promise.all([
+        instance.isExtendedHours(new Date("2018-02-02T14:15:00Z")),
+        instance.isExtendedHours(new Date("2018-02-02T16:00:00Z")),
+        instance.isExtendedHours(new Date("2018-02-02T22:00:00Z")),
+        instance.isExtendedHours(new Date("2018-02-02T23:30:00Z"))
+      ])
+        .then(extended => {
+          expect(extended).to.deep.equal([true, false, true, false]);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getNextOpen", () => {
+    it("is later today before the open", done => {
+      instance
+        .getNextOpen(new Date("2018-02-02T13:00:00Z"))
+        .then(date => {
+          expect(date.toISOString()).to.equal("2018-02-02T14:30:00.000Z");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("skips days the market is closed", done => {
+      instance
+        .getNextOpen(new Date("2018-02-03T16:00:00Z"))
+        .then(date => {
+          expect(date.toISOString()).to.equal("2018-02-05T14:30:00.000Z");
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getNextClose", () => {
+    it("is today until the close", done => {
+      instance
+        .getNextClose(new Date("2018-02-02T13:00:00Z"))
+        .then(date => {
+          expect(date.toISOString()).to.equal("2018-02-02T21:00:00.000Z");
+          return instance.getNextClose(new Date("2018-02-02T22:00:00Z"));
+        })
+        .then(date => {
+          expect(date.toISOString()).to.equal("2018-02-05T21:00:00.000Z");
+          done();
+        })
+        .catch(done);
+    });
+  });
+});
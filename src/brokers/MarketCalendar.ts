@@ -0,0 +1,163 @@
+import Robinhood from "./Robinhood";
+import { getMIC } from "./RobinhoodAPIConfiguration";
+import { APIMarketHoursInterface } from "./RobinhoodInterfaces";
+
+export interface MarketCalendarOptions {
+  market?: string; // MIC or market URL used when none is given
+  timezone?: string; // Time zone the market's days are in
+}
+
+const DEFAULT_OPTIONS: MarketCalendarOptions = {
+  market: "XNYS",
+  timezone: "America/New_York"
+};
+
+/**
+ * Answers when markets are open using the hours Robinhood publishes,
+ * holidays and early closes included. Hours are cached per market and day.
+ */
+export default class MarketCalendar {
+  protected broker: Robinhood;
+  protected options: MarketCalendarOptions;
+  protected hours: {
+    [marketDay: string]: Promise<APIMarketHoursInterface>;
+  } = {};
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  options {MarketCalendarOptions}
+   */
+  constructor(broker: Robinhood, options: MarketCalendarOptions = {}) {
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * @param  date {Date|String} Day in the market's time zone or "2018-01-31"
+   * @param  market {String} MIC or market URL, such as an instrument's market
+   */
+  public getHours(
+    date: Date | string = new Date(),
+    market: string = this.options.market
+  ): Promise<APIMarketHoursInterface> {
+    let day = typeof date === "string" ? date : this.getDay(date);
+    let key = `${getMIC(market)} ${day}`;
+
+    if (!this.hours[key]) {
+      this.hours[key] = this.broker.getMarketHours(market, day);
+
+      // Failures aren't cached so the next call tries again
+      this.hours[key].catch(() => delete this.hours[key]);
+    }
+
+    return this.hours[key];
+  }
+
+  /**
+   * Whether regular trading hours are on
+   */
+  public isOpen(
+    now: Date = new Date(),
+    market: string = this.options.market
+  ): Promise<boolean> {
+    return this.getHours(now, market).then(hours =>
+      isBetween(now, hours.opens_at, hours.closes_at)
+    );
+  }
+
+  /**
+   * Whether it's the pre-market or after-hours session
+   */
+  public isExtendedHours(
+    now: Date = new Date(),
+    market: string = this.options.market
+  ): Promise<boolean> {
+    return this.getHours(now, market).then(
+      hours =>
+        isBetween(now, hours.extended_opens_at, hours.extended_closes_at) &&
+        !isBetween(now, hours.opens_at, hours.closes_at)
+    );
+  }
+
+  /**
+   * When regular trading hours start next, now if they're on
+   */
+  public getNextOpen(
+    now: Date = new Date(),
+    market: string = this.options.market
+  ): Promise<Date> {
+    return this.getHours(now, market).then(hours => {
+      if (isBetween(now, hours.opens_at, hours.closes_at)) {
+        return now;
+      }
+
+      return hours.is_open && now < new Date(hours.opens_at)
+        ? new Date(hours.opens_at)
+        : this.getNextOpenHours(hours, market).then(
+            next => new Date(next.opens_at)
+          );
+    });
+  }
+
+  /**
+   * When regular trading hours end next
+   */
+  public getNextClose(
+    now: Date = new Date(),
+    market: string = this.options.market
+  ): Promise<Date> {
+    return this.getHours(now, market).then(
+      hours =>
+        hours.is_open && now < new Date(hours.closes_at)
+          ? new Date(hours.closes_at)
+          : this.getNextOpenHours(hours, market).then(
+              next => new Date(next.closes_at)
+            )
+    );
+  }
+
+  public clear(): void {
+    this.hours = {};
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected getNextOpenHours(
+    hours: APIMarketHoursInterface,
+    market: string
+  ): Promise<APIMarketHoursInterface> {
+    // ".../markets/XNYS/hours/2018-02-01/"
+    let day = hours.next_open_hours
+      .split("/")
+      .filter(part => part)
+      .pop();
+
+    return this.getHours(day, market);
+  }
+
+  /**
+   * "2018-01-31" for a date in the market's time zone
+   */
+  protected getDay(date: Date): string {
+    let [month, day, year] = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.options.timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit"
+    })
+      .format(date)
+      .split("/");
+
+    return `${year}-${month}-${day}`;
+  }
+}
+
+function isBetween(
+  date: Date,
+  start: string | null,
+  end: string | null
+): boolean {
+  return !!start && !!end && date >= new Date(start) && date < new Date(end);
+}
@@ -0,0 +1,125 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import MoversScanner, { MOVERS_EVENTS } from "./MoversScanner";
+import { ERRORS, EVENTS } from "./Robinhood";
+
+function movers(...symbols) {
+  return { results: symbols.map(symbol => ({ symbol })) };
+}
+
+describe("MoversScanner", () => {
+  let broker, instance, entered, exited;
+
+  beforeEach(() => {
+    broker = { getMovers: sinon.stub() };
+    broker.getMovers.withArgs("up").resolves(movers("FB", "AAPL", "MSFT"));
+    broker.getMovers.withArgs("down").resolves(movers("GE"));
+    entered = sinon.spy();
+    exited = sinon.spy();
+    instance = new MoversScanner(broker, { size: 2 });
+    instance.on(MOVERS_EVENTS.MOVER_ENTERED, entered);
+    instance.on(MOVERS_EVENTS.MOVER_EXITED, exited);
+  });
+
+  afterEach(() => instance.stop());
+
+  it("enters the top movers of every list on the first scan", done => {
+    instance
+      .scan()
+      .then(() => {
+        expect(
+          entered.args.map(([{ direction, mover }]) => [
+            direction,
+            mover.symbol
+          ])
+        ).to.deep.equal([["up", "FB"], ["up", "AAPL"], ["down", "GE"]]);
+        expect(exited.callCount).to.equal(0);
+        expect(instance.getSymbols()).to.deep.equal(["FB", "AAPL", "GE"]);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("emits entries and exits between scans", done => {
+    instance
+      .scan()
+      .then(() => {
+        entered.reset();
+        broker.getMovers.withArgs("up").resolves(movers("MSFT", "FB"));
+        return instance.scan();
+      })
+      .then(() => {
+        expect(entered.args.map(([{ mover }]) => mover.symbol)).to.deep.equal([
+          "MSFT"
+        ]);
+        expect(exited.args[0][0]).to.deep.equal({
+          direction: "up",
+          mover: { symbol: "AAPL" }
+        });
+        expect(
+          instance.getMovers("up").map(mover => mover.symbol)
+        ).to.deep.equal(["MSFT", "FB"]);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("emits errors and scans the other lists", done => {
+    let error = sinon.spy();
+    instance.on(EVENTS.ERROR, error);
+    broker.getMovers.withArgs("up").rejects(new Error("Nope"));
+
+    instance
+      .scan()
+      .then(() => {
+        expect(error.args[0]).to.deep.equal([
+          { type: ERRORS.MOVERS, message: "Nope" }
+        ]);
+        expect(instance.getSymbols()).to.deep.equal(["GE"]);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("keeps a single scan loop when restarted during a scan", done => {
+    let clock = sinon.useFakeTimers();
+    let resolve;
+    broker.getMovers = sinon
+      .stub()
+      .returns(new Promise(resolver => (resolve = resolver)));
+    let scan = sinon.spy(instance, "scan");
+
+    instance.start();
+    clock.tick(0);
+    instance.stop();
+    instance.start();
+    clock.tick(0);
+    resolve(movers("FB"));
+
+    Promise.all(scan.returnValues)
+      .then(() => {
+        clock.tick(instance.options.interval);
+        clock.restore();
+        expect(scan.callCount).to.equal(3);
+        done();
+      })
+      .catch(error => {
+        clock.restore();
+        done(error);
+      });
+  });
+
+  it("scans on an interval once started", () => {
+    let clock = sinon.useFakeTimers();
+    let scan = sinon.stub(instance, "scan").resolves();
+
+    instance.start();
+    instance.start();
+    clock.tick(0);
+    clock.restore();
+
+    expect(scan.callCount).to.equal(1);
+  });
+});
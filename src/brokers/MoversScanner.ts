@@ -0,0 +1,148 @@
+import EventEmitter = require("events");
+
+import Robinhood, { EVENTS } from "./Robinhood";
+import { MoversError } from "./RobinhoodErrors";
+import { APIMoverInterface, APIMoversDirection } from "./RobinhoodInterfaces";
+
+export interface MoversScannerOptions {
+  interval?: number; // Milliseconds between snapshots
+  directions?: APIMoversDirection[]; // Lists to scan
+  size?: number; // Only the top movers of each list count, all when null
+}
+
+export interface MoverEvent {
+  direction: APIMoversDirection;
+  mover: APIMoverInterface; // Latest snapshot of the mover
+}
+
+export const enum MOVERS_EVENTS {
+  MOVER_ENTERED = "MOVER_ENTERED",
+  MOVER_EXITED = "MOVER_EXITED",
+  MOVERS_SCANNED = "MOVERS_SCANNED"
+}
+
+const DEFAULT_OPTIONS: MoversScannerOptions = {
+  interval: 1000 * 60 * 5, // 5 minutes
+  directions: ["up", "down"],
+  size: null
+};
+
+/**
+ * Snapshots the S&P 500 movers on an interval and emits the symbols
+ * entering and exiting the lists, everything enters on the first snapshot
+ */
+export default class MoversScanner extends EventEmitter {
+  protected broker: Robinhood;
+  protected options: MoversScannerOptions;
+  protected snapshots: { [direction: string]: APIMoverInterface[] } = {};
+  protected timeout: NodeJS.Timer = null;
+  protected generation: number = 0; // Bumped on stop so old scans end
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  options {MoversScannerOptions}
+   */
+  constructor(broker: Robinhood, options: MoversScannerOptions = {}) {
+    super();
+
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * Takes a snapshot right away and then on every interval
+   */
+  public start(): void {
+    if (!this.timeout) {
+      this.timeout = setTimeout(() => this.scan(), 0);
+    }
+  }
+
+  public stop(): void {
+    clearTimeout(this.timeout);
+    this.timeout = null;
+    this.generation++;
+  }
+
+  /**
+   * Movers from the latest snapshot, ranked
+   */
+  public getMovers(direction: APIMoversDirection): APIMoverInterface[] {
+    return (this.snapshots[direction] || []).slice();
+  }
+
+  /**
+   * Symbols in any of the lists, for use as a trading universe
+   */
+  public getSymbols(): string[] {
+    return Object.keys(this.snapshots)
+      .reduce(
+        (symbols, direction) =>
+          symbols.concat(this.snapshots[direction].map(mover => mover.symbol)),
+        []
+      )
+      .filter((symbol, index, symbols) => symbols.indexOf(symbol) === index);
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected scan(): Promise<void> {
+    let generation = this.generation;
+
+    return this.options.directions
+      .reduce(
+        (previous, direction) =>
+          previous.then(() =>
+            this.broker
+              .getMovers(direction)
+              .then(body => this.onSnapshot(direction, body.results))
+              .catch(error => this.emitError(error))
+          ),
+        Promise.resolve()
+      )
+      .then(() => {
+        this.emit(MOVERS_EVENTS.MOVERS_SCANNED);
+
+        // Stopped, or restarted with a scan of its own, while in flight
+        if (this.timeout && generation === this.generation) {
+          this.timeout = setTimeout(() => this.scan(), this.options.interval);
+        }
+      });
+  }
+
+  protected onSnapshot(
+    direction: APIMoversDirection,
+    movers: APIMoverInterface[]
+  ): void {
+    let previous = this.snapshots[direction] || [];
+    let current = this.options.size
+      ? movers.slice(0, this.options.size)
+      : movers;
+    let has = (list: APIMoverInterface[], symbol: string) =>
+      list.some(mover => mover.symbol === symbol);
+
+    this.snapshots[direction] = current;
+
+    previous
+      .filter(mover => !has(current, mover.symbol))
+      .forEach(mover =>
+        this.emit(MOVERS_EVENTS.MOVER_EXITED, { direction, mover })
+      );
+    current
+      .filter(mover => !has(previous, mover.symbol))
+      .forEach(mover =>
+        this.emit(MOVERS_EVENTS.MOVER_ENTERED, { direction, mover })
+      );
+  }
+
+  protected emitError(error: any): void {
+    let moversError = new MoversError(error.message || error.detail, error);
+
+    this.emit(EVENTS.ERROR, {
+      type: moversError.type,
+      message: moversError.message
+    });
+  }
+}
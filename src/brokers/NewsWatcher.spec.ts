@@ -0,0 +1,133 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import NewsWatcher, { NEWS_EVENTS } from "./NewsWatcher";
+import { ERRORS, EVENTS } from "./Robinhood";
+
+function article(uuid, publishedAt) {
+  return { uuid, title: uuid, published_at: publishedAt };
+}
+
+describe("NewsWatcher", () => {
+  let broker, instance, clock, news;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers(Date.parse("2018-01-31T22:00:00Z"));
+    broker = {
+      getNews: sinon.stub().resolves({
+        results: [
+          article("new", "2018-01-31T21:50:00Z"),
+          article("newer", "2018-01-31T21:55:00Z"),
+          article("old", "2018-01-31T20:00:00Z")
+        ]
+      })
+    };
+    news = sinon.spy();
+    instance = new NewsWatcher(broker);
+    instance.on(NEWS_EVENTS.NEWS, news);
+  });
+
+  afterEach(() => {
+    instance.stop();
+    clock.restore();
+  });
+
+  it("polls the news right away", () => {
+    let poll = sinon.stub(instance, "poll").resolves();
+    instance.watch(["fb", "aapl"]);
+    instance.watch("FB");
+    clock.tick(0);
+
+    expect(poll.callCount).to.equal(1);
+    expect(instance.getSymbols()).to.deep.equal(["FB", "AAPL"]);
+  });
+
+  it("emits recent articles once, oldest first", done => {
+    instance.watch("fb");
+
+    instance
+      .poll()
+      .then(() => instance.poll())
+      .then(() => {
+        expect(news.args.map(([event]) => event.article.uuid)).to.deep.equal([
+          "new",
+          "newer"
+        ]);
+        expect(news.args[0][0].symbol).to.equal("FB");
+        done();
+      })
+      .catch(done);
+  });
+
+  it("emits an article for every symbol it's about", done => {
+    instance.watch(["fb", "aapl"]);
+
+    instance
+      .poll()
+      .then(() => {
+        expect(news.args.map(([event]) => event.symbol)).to.deep.equal([
+          "FB",
+          "FB",
+          "AAPL",
+          "AAPL"
+        ]);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("keeps a single poll loop when watched again during a poll", done => {
+    let resolve;
+    broker.getNews = sinon
+      .stub()
+      .returns(new Promise(resolver => (resolve = resolver)));
+    let poll = sinon.spy(instance, "poll");
+
+    instance.watch("fb");
+    clock.tick(0);
+    instance.stop();
+    instance.watch("fb");
+    clock.tick(0);
+    resolve({ results: [] });
+
+    Promise.all(poll.returnValues)
+      .then(() => {
+        clock.tick(instance.options.interval);
+        expect(poll.callCount).to.equal(3);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("stops polling symbols that are unwatched", done => {
+    instance.watch(["fb", "aapl"]);
+    instance.unwatch("FB");
+
+    instance
+      .poll()
+      .then(() => {
+        expect(broker.getNews.args).to.deep.equal([["AAPL"]]);
+        done();
+      })
+      .catch(done);
+  });
+
+  it("emits errors and keeps polling other symbols", done => {
+    let error = sinon.spy();
+    instance.on(EVENTS.ERROR, error);
+    broker.getNews.withArgs("FB").rejects(new Error("Nope"));
+    instance.watch(["fb", "aapl"]);
+
+    instance
+      .poll()
+      .then(() => {
+        expect(error.args[0]).to.deep.equal([
+          { type: ERRORS.NEWS, message: "Nope" }
+        ]);
+        expect(news.callCount).to.equal(2);
+        done();
+      })
+      .catch(done);
+  });
+});
@@ -0,0 +1,154 @@
+import EventEmitter = require("events");
+
+import Robinhood, { EVENTS } from "./Robinhood";
+import { NewsError } from "./RobinhoodErrors";
+import { APINewsArticleInterface } from "./RobinhoodInterfaces";
+
+export interface NewsWatcherOptions {
+  interval?: number; // Milliseconds between polls of every symbol
+  maxAge?: number; // Milliseconds after publishing an article stops being news
+}
+
+export interface NewsEvent {
+  symbol: string;
+  article: APINewsArticleInterface;
+}
+
+export const enum NEWS_EVENTS {
+  NEWS = "NEWS"
+}
+
+const DEFAULT_OPTIONS: NewsWatcherOptions = {
+  interval: 1000 * 60, // 1 minute
+  maxAge: 1000 * 60 * 60 // 1 hour
+};
+
+/**
+ * Polls news for a set of symbols and emits articles published recently,
+ * each article is emitted once per symbol
+ */
+export default class NewsWatcher extends EventEmitter {
+  protected broker: Robinhood;
+  protected options: NewsWatcherOptions;
+  protected symbols: string[] = [];
+  protected seen: { [symbolArticle: string]: number } = {}; // Published at
+  protected timeout: NodeJS.Timer = null;
+  protected generation: number = 0; // Bumped on stop so old polls end
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  options {NewsWatcherOptions}
+   */
+  constructor(broker: Robinhood, options: NewsWatcherOptions = {}) {
+    super();
+
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * Starts watching symbols, their news is requested right away
+   * @param  symbols {String|Array}
+   */
+  public watch(symbols: string[] | string): void {
+    (Array.isArray(symbols) ? symbols : [symbols])
+      .map(symbol => symbol.toUpperCase())
+      .filter(symbol => !this.symbols.includes(symbol))
+      .forEach(symbol => this.symbols.push(symbol));
+
+    if (!this.timeout) {
+      this.timeout = setTimeout(() => this.poll(), 0);
+    }
+  }
+
+  public unwatch(symbols: string[] | string): void {
+    let removed = (Array.isArray(symbols) ? symbols : [symbols]).map(symbol =>
+      symbol.toUpperCase()
+    );
+
+    this.symbols = this.symbols.filter(symbol => !removed.includes(symbol));
+  }
+
+  public getSymbols(): string[] {
+    return this.symbols.slice();
+  }
+
+  public stop(): void {
+    clearTimeout(this.timeout);
+    this.timeout = null;
+    this.generation++;
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected poll(): Promise<void> {
+    if (!this.symbols.length) {
+      this.timeout = null;
+      return Promise.resolve();
+    }
+
+    let generation = this.generation;
+
+    return this.symbols
+      .reduce(
+        (previous, symbol) =>
+          previous.then(() =>
+            this.broker
+              .getNews(symbol)
+              .then(body => this.onArticles(symbol, body.results))
+              .catch(error => this.emitError(error))
+          ),
+        Promise.resolve()
+      )
+      .then(() => {
+        this.prune();
+
+        // Stopped, or restarted with a poll of its own, while in flight
+        if (this.timeout && generation === this.generation) {
+          this.timeout = setTimeout(() => this.poll(), this.options.interval);
+        }
+      });
+  }
+
+  protected onArticles(
+    symbol: string,
+    articles: APINewsArticleInterface[]
+  ): void {
+    let oldest = Date.now() - this.options.maxAge;
+
+    articles
+      .map(article => ({
+        article,
+        key: `${symbol} ${article.uuid}`,
+        publishedAt: new Date(article.published_at).getTime()
+      }))
+      .filter(({ key, publishedAt }) => !this.seen[key] && publishedAt > oldest)
+      .sort((a, b) => a.publishedAt - b.publishedAt)
+      .forEach(({ article, key, publishedAt }) => {
+        this.seen[key] = publishedAt;
+        this.emit(NEWS_EVENTS.NEWS, { symbol, article });
+      });
+  }
+
+  /**
+   * Forgets articles too old to be emitted again
+   */
+  protected prune(): void {
+    let oldest = Date.now() - this.options.maxAge;
+
+    Object.keys(this.seen)
+      .filter(key => this.seen[key] <= oldest)
+      .forEach(key => delete this.seen[key]);
+  }
+
+  protected emitError(error: any): void {
+    let newsError = new NewsError(error.message || error.detail, error);
+
+    this.emit(EVENTS.ERROR, {
+      type: newsError.type,
+      message: newsError.message
+    });
+  }
+}
@@ -0,0 +1,223 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+import EventEmitter = require("events");
+
+import OCOOrderManager, { OCO_EVENTS } from "./OCOOrderManager";
+import { ORDER_EVENTS } from "./OrderTracker";
+import { OCOOrderError } from "./RobinhoodErrors";
+import {
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+
+// Settles tracked orders when told to instead of polling
+class FakeTracker extends EventEmitter {
+  public resolvers = {};
+  public promises = {};
+
+  public track(order) {
+    if (!this.promises[order.id]) {
+      this.promises[order.id] = new Promise(
+        resolve => (this.resolvers[order.id] = resolve)
+      );
+    }
+
+    return this.promises[order.id];
+  }
+
+  public settle(id, state, cumulativeQuantity = "0") {
+    this.resolvers[id]({ id, state, cumulative_quantity: cumulativeQuantity });
+  }
+}
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function placed(id) {
+  return { id, state: APIOrderState.confirmed, cumulative_quantity: "0" };
+}
+
+describe("OCOOrderManager", () => {
+  let broker, tracker, instance, members;
+
+  beforeEach(() => {
+    broker = {
+      placeBuyOrder: sinon.stub().resolves(placed("breakout")),
+      placeSellOrder: sinon.stub().resolves(placed("breakdown")),
+      cancelOrder: sinon.stub().resolves({})
+    };
+    tracker = new FakeTracker();
+    instance = new OCOOrderManager(broker, tracker as any);
+    members = [
+      {
+        side: APIOrderSide.buy,
+        order: {
+          instrument: "http://baz.qux",
+          symbol: "fb",
+          quantity: "10",
+          type: APIOrderType.market,
+          trigger: APIOrderTrigger.stop,
+          stop_price: "110.00",
+          price: null
+        }
+      },
+      {
+        side: APIOrderSide.sell,
+        order: {
+          instrument: "http://baz.qux",
+          symbol: "fb",
+          quantity: "10",
+          type: APIOrderType.market,
+          trigger: APIOrderTrigger.stop,
+          stop_price: "90.00",
+          price: null
+        }
+      }
+    ];
+  });
+
+  describe("#place", () => {
+    it("places every member", done => {
+      instance
+        .place(members)
+        .then(group => {
+          expect(broker.placeBuyOrder.args[0]).to.deep.equal([
+            members[0].order
+          ]);
+          expect(broker.placeSellOrder.args[0]).to.deep.equal([
+            members[1].order
+          ]);
+          expect(group).to.deep.include({
+            id: "breakout",
+            state: "open",
+            triggeredBy: null
+          });
+          expect(group.orders.map(order => order.id)).to.deep.equal([
+            "breakout",
+            "breakdown"
+          ]);
+          expect(instance.getGroups().length).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("needs at least two orders", done => {
+      instance.place(members.slice(1)).catch(error => {
+        expect(error).to.be.an.instanceof(OCOOrderError);
+        expect(broker.placeSellOrder.callCount).to.equal(0);
+        done();
+      });
+    });
+
+    it("cancels placed members when another can't be placed", done => {
+      let failure = new Error("Nope");
+      broker.placeSellOrder.rejects(failure);
+
+      instance.place(members).catch(error => {
+        expect(error).to.be.an.instanceof(OCOOrderError);
+        expect(error.message).to.equal(
+          "Unable to place OCO group, 1 of 2 orders failed"
+        );
+        expect(error.cause).to.equal(failure);
+        expect(broker.cancelOrder.args[0][0].id).to.equal("breakout");
+        expect(instance.getGroups()).to.deep.equal([]);
+        done();
+      });
+    });
+  });
+
+  describe("fills", () => {
+    beforeEach(() => instance.place(members));
+
+    it("cancels the other members once one fills", done => {
+      instance.on(OCO_EVENTS.OCO_FILLED, ({ group, filled, exposure }) => {
+        expect(group.state).to.equal("done");
+        expect(group.triggeredBy).to.equal("breakout");
+        expect(filled.map(order => order.id)).to.deep.equal(["breakout"]);
+        expect(exposure).to.deep.equal({ FB: "10" });
+        expect(broker.cancelOrder.callCount).to.equal(1);
+        expect(broker.cancelOrder.args[0][0].id).to.equal("breakdown");
+        expect(instance.getGroups()).to.deep.equal([]);
+        done();
+      });
+
+      tracker.settle("breakout", APIOrderState.filled, "10");
+      flush().then(() => tracker.settle("breakdown", APIOrderState.cancelled));
+    });
+
+    it("triggers on the first partial fill", done => {
+      let triggered = sinon.spy();
+      instance.on(OCO_EVENTS.OCO_TRIGGERED, triggered);
+
+      tracker.emit(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, {
+        order: {
+          id: "breakdown",
+          state: APIOrderState.partially_filled,
+          cumulative_quantity: "2"
+        },
+        executions: []
+      });
+
+      flush()
+        .then(() => {
+          let { group } = triggered.args[0][0];
+          expect(triggered.callCount).to.equal(1);
+          expect(group.state).to.equal("triggered");
+          expect(group.triggeredBy).to.equal("breakdown");
+          expect(broker.cancelOrder.callCount).to.equal(1);
+          expect(broker.cancelOrder.args[0][0].id).to.equal("breakout");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("reports the net exposure when members race", done => {
+      instance.on(OCO_EVENTS.OCO_OVERFILLED, ({ filled, exposure }) => {
+        expect(filled.length).to.equal(2);
+        expect(exposure).to.deep.equal({ FB: "-6" });
+        done();
+      });
+
+      tracker.settle("breakout", APIOrderState.filled, "4");
+      tracker.settle("breakdown", APIOrderState.filled, "10");
+    });
+
+    it("is canceled when nothing fills", done => {
+      instance.on(OCO_EVENTS.OCO_CANCELED, ({ filled, exposure }) => {
+        expect(filled).to.deep.equal([]);
+        expect(exposure).to.deep.equal({});
+        done();
+      });
+
+      tracker.settle("breakout", APIOrderState.rejected);
+      tracker.settle("breakdown", APIOrderState.cancelled);
+    });
+  });
+
+  describe("#cancel", () => {
+    it("cancels every member", done => {
+      instance
+        .place(members)
+        .then(group => instance.cancel(group.id))
+        .then(() => {
+          expect(broker.cancelOrder.callCount).to.equal(2);
+          expect(instance.getGroups()[0].state).to.equal("canceling");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects for unknown groups", done => {
+      instance.cancel("foo").catch(error => {
+        expect(error).to.be.an.instanceof(OCOOrderError);
+        expect(error.message).to.equal("No active OCO group foo");
+        done();
+      });
+    });
+  });
+});
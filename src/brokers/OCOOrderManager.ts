@@ -0,0 +1,330 @@
+import EventEmitter = require("events");
+
+import Decimal from "./Decimal";
+import OrderTracker, { ORDER_EVENTS, OrderEvent } from "./OrderTracker";
+import Robinhood, {
+  ERRORS,
+  EVENTS,
+  OrderLimitInterface,
+  OrderMarketInterface,
+  OrderStopLimitInterface,
+  OrderStopMarketInterface
+} from "./Robinhood";
+import { OCOOrderError } from "./RobinhoodErrors";
+import { APIOrderResponseInterface, APIOrderSide } from "./RobinhoodInterfaces";
+
+export type OCOState =
+  | "open" // Every member is working
+  | "triggered" // A member filled, the rest are being canceled
+  | "canceling" // Canceled by the user
+  | "done"; // Every member is in a terminal state
+
+export interface OCOMember {
+  side: APIOrderSide;
+  order:
+    | OrderMarketInterface
+    | OrderLimitInterface
+    | OrderStopMarketInterface
+    | OrderStopLimitInterface;
+}
+
+export interface OCOGroup {
+  id: string; // ID of the first member order
+  state: OCOState;
+  orders: APIOrderResponseInterface[]; // Latest state of every member
+  triggeredBy: string | null; // ID of the first member seen filling
+}
+
+export interface OCOEvent {
+  group: OCOGroup;
+}
+
+export interface OCODoneEvent extends OCOEvent {
+  filled: APIOrderResponseInterface[]; // Members that filled, fully or not
+  exposure: { [symbol: string]: string }; // { FB: "-10" } net shares filled
+}
+
+interface TrackedGroup {
+  id: string;
+  state: OCOState;
+  members: OCOMember[];
+  orders: APIOrderResponseInterface[];
+  done: { [orderId: string]: boolean };
+  triggeredBy: string | null;
+}
+
+export const enum OCO_EVENTS {
+  OCO_CANCELED = "OCO_CANCELED", // Nothing filled
+  OCO_FILLED = "OCO_FILLED", // A single member filled
+  OCO_OVERFILLED = "OCO_OVERFILLED", // More than one member filled
+  OCO_TRIGGERED = "OCO_TRIGGERED"
+}
+
+/**
+ * One-cancels-other groups, Robinhood doesn't have them.
+ * As soon as a member starts filling the other members are canceled.
+ * Members can fill before their cancel goes through so once every member
+ * is done the event reports what filled and the net exposure per symbol.
+ */
+export default class OCOOrderManager extends EventEmitter {
+  protected broker: Robinhood;
+  protected tracker: OrderTracker;
+  protected groups: { [groupId: string]: TrackedGroup } = {};
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  tracker {OrderTracker} Polls the orders, can be shared
+   */
+  constructor(broker: Robinhood, tracker?: OrderTracker) {
+    super();
+
+    this.broker = broker;
+    this.tracker = tracker || new OrderTracker(broker);
+    this.tracker.on(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, (event: OrderEvent) =>
+      this.onMemberPartiallyFilled(event.order)
+    );
+  }
+
+  /**
+   * Places every member of the group, if any of them can't be placed
+   * the ones that were are canceled
+   * @return Promise resolved with the group once every member is placed
+   */
+  public place(members: OCOMember[]): Promise<OCOGroup> {
+    if (members.length < 2) {
+      return Promise.reject(
+        new OCOOrderError("An OCO group needs at least two orders")
+      );
+    }
+
+    let failures = [];
+
+    return Promise.all(
+      members.map(member =>
+        this.placeOrder(member).catch(error => {
+          failures.push(error);
+          return null;
+        })
+      )
+    ).then(orders => {
+      if (failures.length) {
+        let placed = orders.filter(order => !!order);
+
+        return Promise.all(
+          placed.map(order => this.cancelOrder(order))
+        ).then((): OCOGroup => {
+          throw new OCOOrderError(
+            `Unable to place OCO group, ${failures.length} of ` +
+              `${members.length} orders failed`,
+            failures[0]
+          );
+        });
+      }
+
+      let group: TrackedGroup = {
+        id: orders[0].id,
+        state: "open",
+        members,
+        orders,
+        done: {},
+        triggeredBy: null
+      };
+
+      this.groups[group.id] = group;
+      orders.forEach(order =>
+        this.tracker
+          .track(order)
+          .then(final => this.onMemberDone(group, final))
+          .catch(error => this.emitError(error))
+      );
+
+      return this.toGroup(group);
+    });
+  }
+
+  /**
+   * Cancels every member that's still working
+   */
+  public cancel(groupId: string): Promise<void> {
+    let group = this.groups[groupId];
+
+    if (!group) {
+      return Promise.reject(
+        new OCOOrderError(`No active OCO group ${groupId}`)
+      );
+    }
+
+    if (group.state === "open") {
+      group.state = "canceling";
+    }
+
+    return this.cancelOthers(group, null);
+  }
+
+  public getGroups(): OCOGroup[] {
+    return Object.keys(this.groups).map(groupId =>
+      this.toGroup(this.groups[groupId])
+    );
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected onMemberPartiallyFilled(order: APIOrderResponseInterface): void {
+    let group = this.findGroupByOrder(order.id);
+
+    if (group) {
+      this.updateOrder(group, order);
+      this.trigger(group, order);
+    }
+  }
+
+  protected onMemberDone(
+    group: TrackedGroup,
+    order: APIOrderResponseInterface
+  ): void {
+    this.updateOrder(group, order);
+    group.done[order.id] = true;
+
+    if (this.hasFilled(order)) {
+      this.trigger(group, order);
+    }
+
+    if (group.orders.every(member => group.done[member.id])) {
+      this.finish(group);
+    }
+  }
+
+  /**
+   * First fill of the group, everything else gets canceled
+   */
+  protected trigger(
+    group: TrackedGroup,
+    order: APIOrderResponseInterface
+  ): void {
+    if (group.state !== "open") {
+      return;
+    }
+
+    group.state = "triggered";
+    group.triggeredBy = order.id;
+    this.emit(OCO_EVENTS.OCO_TRIGGERED, { group: this.toGroup(group) });
+    this.cancelOthers(group, order.id);
+  }
+
+  protected cancelOthers(
+    group: TrackedGroup,
+    orderId: string | null
+  ): Promise<void> {
+    let working = group.orders.filter(
+      order => order.id !== orderId && !group.done[order.id]
+    );
+
+    return Promise.all(working.map(order => this.cancelOrder(order))).then(
+      () => undefined
+    );
+  }
+
+  /**
+   * Canceling an order that's already done fails, tracking settles it
+   */
+  protected cancelOrder(order: APIOrderResponseInterface): Promise<void> {
+    return this.broker
+      .cancelOrder(order)
+      .then(() => undefined)
+      .catch(error => this.emitError(error));
+  }
+
+  protected finish(group: TrackedGroup): void {
+    let filled = group.orders.filter(order => this.hasFilled(order));
+    let event: OCODoneEvent;
+
+    group.state = "done";
+    delete this.groups[group.id];
+
+    event = {
+      group: this.toGroup(group),
+      filled,
+      exposure: this.getExposure(group)
+    };
+
+    if (filled.length > 1) {
+      this.emit(OCO_EVENTS.OCO_OVERFILLED, event);
+    } else if (filled.length === 1) {
+      this.emit(OCO_EVENTS.OCO_FILLED, event);
+    } else {
+      this.emit(OCO_EVENTS.OCO_CANCELED, event);
+    }
+  }
+
+  /**
+   * Net shares filled per symbol, buys add and sells subtract
+   */
+  protected getExposure(group: TrackedGroup): { [symbol: string]: string } {
+    let exposure: { [symbol: string]: Decimal } = {};
+
+    group.orders.forEach((order, index) => {
+      if (!this.hasFilled(order)) {
+        return;
+      }
+
+      let member = group.members[index];
+      let symbol = member.order.symbol.toUpperCase();
+      let quantity = new Decimal(order.cumulative_quantity);
+
+      exposure[symbol] = (exposure[symbol] || new Decimal(0)).plus(
+        member.side === APIOrderSide.buy ? quantity : quantity.negate()
+      );
+    });
+
+    return Object.keys(exposure).reduce(
+      (result, symbol) =>
+        Object.assign(result, { [symbol]: exposure[symbol].toString() }),
+      {}
+    );
+  }
+
+  protected placeOrder(member: OCOMember): Promise<APIOrderResponseInterface> {
+    return member.side === APIOrderSide.buy
+      ? this.broker.placeBuyOrder(member.order)
+      : this.broker.placeSellOrder(member.order);
+  }
+
+  protected updateOrder(
+    group: TrackedGroup,
+    order: APIOrderResponseInterface
+  ): void {
+    group.orders = group.orders.map(
+      member => (member.id === order.id ? order : member)
+    );
+  }
+
+  protected hasFilled(order: APIOrderResponseInterface): boolean {
+    return !new Decimal(order.cumulative_quantity || "0").isZero();
+  }
+
+  protected findGroupByOrder(orderId: string): TrackedGroup | null {
+    let groupId = Object.keys(this.groups).find(id =>
+      this.groups[id].orders.some(order => order.id === orderId)
+    );
+
+    return groupId ? this.groups[groupId] : null;
+  }
+
+  protected toGroup(group: TrackedGroup): OCOGroup {
+    return {
+      id: group.id,
+      state: group.state,
+      orders: group.orders.slice(),
+      triggeredBy: group.triggeredBy
+    };
+  }
+
+  protected emitError(error: any): void {
+    this.emit(EVENTS.ERROR, {
+      type: ERRORS.OCO_ORDER,
+      message: error.message || error.detail
+    });
+  }
+}
@@ -0,0 +1,144 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import OrderTracker, { ORDER_EVENTS } from "./OrderTracker";
+import { ERRORS, EVENTS } from "./Robinhood";
+import { APIOrderState } from "./RobinhoodInterfaces";
+
+function order(state, executions = []) {
+  return { id: "foo", state, executions };
+}
+
+describe("OrderTracker", () => {
+  let clock, broker, instance;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    broker = { getOrder: sinon.stub() };
+    instance = new OrderTracker(broker, { minInterval: 1000 });
+  });
+
+  afterEach(() => {
+    instance.stop();
+    clock.restore();
+  });
+
+  describe("#track", () => {
+    it("emits filled event with the new executions", done => {
+      broker.getOrder
+        .withArgs("foo")
+        .resolves(order(APIOrderState.filled, [{ id: "bar" }, { id: "baz" }]));
+
+      instance.on(ORDER_EVENTS.ORDER_FILLED, event => {
+        expect(event.order.state).to.equal(APIOrderState.filled);
+        expect(event.executions).to.deep.equal([{ id: "baz" }]);
+        expect(instance.getTrackedOrders()).to.deep.equal([]);
+        done();
+      });
+
+      instance.track(order(APIOrderState.partially_filled, [{ id: "bar" }]));
+      clock.tick(1000);
+    });
+
+    it("emits partially filled events as executions come in", done => {
+      broker.getOrder
+        .onFirstCall()
+        .resolves(order(APIOrderState.partially_filled, [{ id: "bar" }]));
+
+      instance.on(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, event => {
+        expect(event.executions).to.deep.equal([{ id: "bar" }]);
+        expect(instance.getTrackedOrders().length).to.equal(1);
+        done();
+      });
+
+      instance.track(order(APIOrderState.confirmed));
+      clock.tick(1000);
+    });
+
+    it("emits canceled and rejected events", done => {
+      let canceledTracker = new OrderTracker({
+        getOrder: sinon.stub().resolves(order(APIOrderState.cancelled))
+      } as any);
+      let rejectedTracker = new OrderTracker({
+        getOrder: sinon.stub().resolves(order(APIOrderState.failed))
+      } as any);
+
+      canceledTracker.on(ORDER_EVENTS.ORDER_CANCELED, () =>
+        rejectedTracker.on(ORDER_EVENTS.ORDER_REJECTED, () => done())
+      );
+
+      canceledTracker.track(order(APIOrderState.confirmed) as any);
+      rejectedTracker.track(order(APIOrderState.confirmed) as any);
+      clock.tick(1000);
+    });
+
+    it("resolves once the order reaches a terminal state", done => {
+      instance.track(order(APIOrderState.rejected)).then(result => {
+        expect(result.state).to.equal(APIOrderState.rejected);
+        expect(broker.getOrder.callCount).to.equal(0);
+        done();
+      });
+    });
+
+    it("backs off while the order doesn't change", done => {
+      broker.getOrder.resolves(order(APIOrderState.confirmed));
+
+      instance.track(order(APIOrderState.confirmed));
+      clock.tick(1000);
+
+      // Wait for the poll's response to be handled
+      Promise.resolve().then(() => {
+        expect(broker.getOrder.callCount).to.equal(1);
+        clock.tick(1999);
+        expect(broker.getOrder.callCount).to.equal(1);
+        clock.tick(1);
+        expect(broker.getOrder.callCount).to.equal(2);
+        done();
+      });
+    });
+
+    it("emits errors and keeps polling", done => {
+      broker.getOrder.onFirstCall().rejects({ message: "foo bar" });
+      broker.getOrder.onSecondCall().resolves(order(APIOrderState.filled));
+
+      instance.on(EVENTS.ERROR, error => {
+        expect(error).to.deep.equal({
+          type: ERRORS.ORDER_TRACKING,
+          message: "foo bar"
+        });
+        Promise.resolve().then(() => clock.tick(2000));
+      });
+      instance.on(ORDER_EVENTS.ORDER_FILLED, () => done());
+
+      instance.track(order(APIOrderState.confirmed));
+      clock.tick(1000);
+    });
+  });
+
+  describe("#untrack", () => {
+    it("stops polling the order", () => {
+      instance.track(order(APIOrderState.confirmed));
+      instance.untrack("foo");
+      clock.tick(1000 * 60);
+
+      expect(broker.getOrder.callCount).to.equal(0);
+    });
+
+    it("stops polling an order untracked while a poll failed", done => {
+      broker.getOrder.rejects({ message: "foo bar" });
+
+      instance.once(EVENTS.ERROR, () => {
+        Promise.resolve().then(() => {
+          clock.tick(1000 * 60);
+          expect(broker.getOrder.callCount).to.equal(1);
+          done();
+        });
+      });
+
+      instance.track(order(APIOrderState.confirmed));
+      clock.tick(1000);
+      instance.untrack("foo");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import EventEmitter = require("events");
+
+import Robinhood, { EVENTS } from "./Robinhood";
+import { OrderTrackingError } from "./RobinhoodErrors";
+import {
+  APIOrderExcutionInterface,
+  APIOrderResponseInterface,
+  APIOrderState
+} from "./RobinhoodInterfaces";
+
+export interface OrderTrackerOptions {
+  minInterval?: number; // Milliseconds between polls right after a change
+  maxInterval?: number; // Polling slows down to this when nothing changes
+  backoff?: number; // Multiplier applied to the interval on every quiet poll
+}
+
+export interface OrderEvent {
+  order: APIOrderResponseInterface;
+  executions: APIOrderExcutionInterface[]; // Executions since last event
+}
+
+interface TrackedOrder {
+  order: APIOrderResponseInterface;
+  interval: number;
+  timeout: NodeJS.Timer;
+  resolve: (order: APIOrderResponseInterface) => void;
+  promise: Promise<APIOrderResponseInterface>;
+}
+
+export const enum ORDER_EVENTS {
+  ORDER_CANCELED = "ORDER_CANCELED",
+  ORDER_FILLED = "ORDER_FILLED",
+  ORDER_PARTIALLY_FILLED = "ORDER_PARTIALLY_FILLED",
+  ORDER_REJECTED = "ORDER_REJECTED"
+}
+
+const DEFAULT_OPTIONS: OrderTrackerOptions = {
+  minInterval: 1000, // 1 second
+  maxInterval: 1000 * 30, // 30 seconds
+  backoff: 2
+};
+
+const TERMINAL_EVENTS: { [state: string]: ORDER_EVENTS } = {
+  [APIOrderState.filled]: ORDER_EVENTS.ORDER_FILLED,
+  [APIOrderState.rejected]: ORDER_EVENTS.ORDER_REJECTED,
+  [APIOrderState.failed]: ORDER_EVENTS.ORDER_REJECTED,
+  [APIOrderState.canceled]: ORDER_EVENTS.ORDER_CANCELED,
+  [APIOrderState.cancelled]: ORDER_EVENTS.ORDER_CANCELED
+};
+
+/**
+ * Polls open orders and emits events as they fill or reach a terminal state,
+ * polling speeds up while an order is changing and backs off when it's quiet
+ */
+export default class OrderTracker extends EventEmitter {
+  protected broker: Robinhood;
+  protected options: OrderTrackerOptions;
+  protected orders: { [orderId: string]: TrackedOrder } = {};
+
+  constructor(broker: Robinhood, options: OrderTrackerOptions = {}) {
+    super();
+
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * Starts watching an order
+   * @return Promise resolved with the order once it's in a terminal state
+   */
+  public track(
+    order: APIOrderResponseInterface
+  ): Promise<APIOrderResponseInterface> {
+    if (this.orders[order.id]) {
+      return this.orders[order.id].promise;
+    }
+
+    // Nothing has been seen yet so the first update emits what's there
+    let tracked = {
+      order: Object.assign({}, order, { executions: [], state: null }),
+      interval: this.options.minInterval
+    } as TrackedOrder;
+    tracked.promise = new Promise(resolve => (tracked.resolve = resolve));
+
+    this.orders[order.id] = tracked;
+    this.update(tracked, order);
+
+    return tracked.promise;
+  }
+
+  /**
+   * Stops watching an order, its promise will never resolve
+   */
+  public untrack(orderId: string): void {
+    let tracked = this.orders[orderId];
+
+    if (tracked) {
+      clearTimeout(tracked.timeout);
+      delete this.orders[orderId];
+    }
+  }
+
+  public stop(): void {
+    Object.keys(this.orders).forEach(orderId => this.untrack(orderId));
+  }
+
+  public getTrackedOrders(): APIOrderResponseInterface[] {
+    return Object.keys(this.orders).map(orderId => this.orders[orderId].order);
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected schedule(tracked: TrackedOrder): void {
+    tracked.timeout = setTimeout(() => this.poll(tracked), tracked.interval);
+  }
+
+  protected poll(tracked: TrackedOrder): void {
+    this.broker.getOrder(tracked.order.id).then(
+      order => {
+        // Untracked while the request was in flight
+        if (this.orders[order.id] === tracked) {
+          this.update(tracked, order);
+        }
+      },
+      error => {
+        let trackingError = new OrderTrackingError(
+          error.message || error.detail,
+          error
+        );
+        this.emit(EVENTS.ERROR, {
+          type: trackingError.type,
+          message: trackingError.message
+        });
+
+        if (this.orders[tracked.order.id] === tracked) {
+          this.backOff(tracked);
+          this.schedule(tracked);
+        }
+      }
+    );
+  }
+
+  protected update(
+    tracked: TrackedOrder,
+    order: APIOrderResponseInterface
+  ): void {
+    let previous = tracked.order;
+    let executions = (order.executions || []).slice(previous.executions.length);
+    let changed = executions.length > 0 || order.state !== previous.state;
+
+    tracked.order = Object.assign({}, order, {
+      executions: order.executions || []
+    });
+
+    if (TERMINAL_EVENTS[order.state]) {
+      this.untrack(order.id);
+      this.emit(TERMINAL_EVENTS[order.state], { order, executions });
+      tracked.resolve(order);
+      return;
+    }
+
+    if (order.state === APIOrderState.partially_filled && executions.length) {
+      this.emit(ORDER_EVENTS.ORDER_PARTIALLY_FILLED, { order, executions });
+    }
+
+    if (changed) {
+      tracked.interval = this.options.minInterval;
+    } else {
+      this.backOff(tracked);
+    }
+
+    this.schedule(tracked);
+  }
+
+  protected backOff(tracked: TrackedOrder): void {
+    tracked.interval = Math.min(
+      tracked.interval * this.options.backoff,
+      this.options.maxInterval
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import OrderValidator from "./OrderValidator";
+import { OrderValidationError } from "./RobinhoodErrors";
+
+describe("OrderValidator", () => {
+  let instance, order, instrument;
+
+  function validationError(callback: () => any): OrderValidationError {
+    try {
+      callback();
+    } catch (error) {
+      return error;
+    }
+
+    throw new Error("Expected a validation error");
+  }
+
+  beforeEach(() => {
+    instance = new OrderValidator();
+    order = {
+      account: "http://foo.bar/baz",
+      instrument: "http://baz.qux",
+      time_in_force: "gfd",
+      quantity: "2",
+      type: "limit",
+      trigger: "immediate",
+      side: "buy",
+      price: "23.68",
+      stop_price: null,
+      extended_hours: false,
+      symbol: "FB"
+    };
+    instrument = {
+      symbol: "FB",
+      tradability: "tradable",
+      tradeable: true,
+      state: "active",
+      min_tick_size: null
+    };
+  });
+
+  describe("#validate", () => {
+    it("passes valid orders along", () => {
+      expect(instance.validate(order, instrument)).to.equal(order);
+    });
+
+    it("rejects untradable instruments", () => {
+      instrument.tradability = "untradable";
+      instrument.tradeable = false;
+
+      let error = validationError(() => instance.validate(order, instrument));
+
+      expect(error).to.be.an.instanceof(OrderValidationError);
+      expect(error.field).to.equal("instrument");
+      expect(error.message).to.equal("FB is not tradable");
+    });
+
+    it("rejects inactive instruments", () => {
+      instrument.state = "inactive";
+
+      let error = validationError(() => instance.validate(order, instrument));
+
+      expect(error.field).to.equal("instrument");
+      expect(error.message).to.equal(
+        'FB is not active, its state is "inactive"'
+      );
+    });
+
+    it("rejects limit orders without a price", () => {
+      order.price = null;
+
+      let error = validationError(() => instance.validate(order, instrument));
+
+      expect(error.field).to.equal("price");
+      expect(error.message).to.equal("Limit orders require a price");
+    });
+
+    it("rejects stop orders without a stop price", () => {
+      order.trigger = "stop";
+
+      expect(
+        validationError(() => instance.validate(order, instrument)).field
+      ).to.equal("stop_price");
+    });
+
+    it("rejects quantities that aren't positive", () => {
+      order.quantity = "0";
+
+      expect(
+        validationError(() => instance.validate(order, instrument)).field
+      ).to.equal("quantity");
+    });
+
+    it("rejects prices off the minimum tick", () => {
+      instrument.min_tick_size = "0.0500";
+      order.price = "23.68";
+
+      let error = validationError(() => instance.validate(order, instrument));
+
+      expect(error.field).to.equal("price");
+      expect(error.message).to.equal(
+        "price 23.68 is not a multiple of the minimum tick size 0.0500"
+      );
+    });
+
+    it("accepts prices on the minimum tick", () => {
+      instrument.min_tick_size = "0.0500";
+      order.price = "23.65000000";
+
+      expect(instance.validate(order, instrument)).to.equal(order);
+    });
+
+    it("rounds prices to the tick when configured", () => {
+      instance = new OrderValidator({ roundToTick: true });
+      instrument.min_tick_size = "0.0500";
+      order.trigger = "stop";
+      order.stop_price = "23.52";
+
+      expect(instance.validate(order, instrument)).to.deep.equal(
+        Object.assign({}, order, { price: "23.6500", stop_price: "23.5000" })
+      );
+
+      order.side = "sell";
+
+      expect(instance.validate(order, instrument)).to.deep.include({
+        price: "23.7000",
+        stop_price: "23.5500"
+      });
+    });
+  });
+});
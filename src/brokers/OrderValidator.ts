@@ -0,0 +1,113 @@
+import Decimal from "./Decimal";
+import { OrderValidationError } from "./RobinhoodErrors";
+import {
+  APIInstrumentResponse,
+  APIOrderCreateInterface,
+  APIOrderSide,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+
+export interface OrderValidatorOptions {
+  roundToTick?: boolean; // Rounds prices to the tick instead of rejecting
+}
+
+const DEFAULT_OPTIONS: OrderValidatorOptions = {
+  roundToTick: false
+};
+
+const PRICE_FIELDS = ["price", "stop_price"];
+
+/**
+ * Checks orders against their instrument before they're sent,
+ * so orders the server would reject fail early with the field to blame
+ */
+export default class OrderValidator {
+  protected options: OrderValidatorOptions;
+
+  constructor(options: OrderValidatorOptions = {}) {
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * @param  order {APIOrderCreateInterface} Order about to be placed
+   * @param  instrument {APIInstrumentResponse} Instrument the order is for
+   * @return The order, with prices rounded to the tick if configured
+   * @throws OrderValidationError
+   */
+  public validate(
+    order: APIOrderCreateInterface,
+    instrument: APIInstrumentResponse
+  ): APIOrderCreateInterface {
+    let symbol = instrument.symbol;
+
+    if (instrument.tradability === "untradable" || !instrument.tradeable) {
+      throw new OrderValidationError(`${symbol} is not tradable`, "instrument");
+    }
+
+    if (instrument.state !== "active") {
+      throw new OrderValidationError(
+        `${symbol} is not active, its state is "${instrument.state}"`,
+        "instrument"
+      );
+    }
+
+    if (!(parseFloat(order.quantity) > 0)) {
+      throw new OrderValidationError(
+        `Quantity must be greater than zero, got "${order.quantity}"`,
+        "quantity"
+      );
+    }
+
+    if (order.type === APIOrderType.limit && !order.price) {
+      throw new OrderValidationError("Limit orders require a price", "price");
+    }
+
+    if (order.trigger === APIOrderTrigger.stop && !order.stop_price) {
+      throw new OrderValidationError(
+        "Stop orders require a stop_price",
+        "stop_price"
+      );
+    }
+
+    return instrument.min_tick_size
+      ? this.validateTicks(order, new Decimal(instrument.min_tick_size))
+      : order;
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected validateTicks(
+    order: APIOrderCreateInterface,
+    tick: Decimal
+  ): APIOrderCreateInterface {
+    let validated = order;
+
+    PRICE_FIELDS.filter(field => order[field]).forEach(field => {
+      let price = new Decimal(order[field]);
+      // Buys round down and sells round up, never paying more than asked
+      let rounded = price.roundToTick(
+        tick,
+        order.side === APIOrderSide.buy ? "floor" : "ceil"
+      );
+
+      if (rounded.equals(price)) {
+        return;
+      }
+
+      if (!this.options.roundToTick) {
+        throw new OrderValidationError(
+          `${field} ${order[field]} is not a multiple of the ` +
+            `minimum tick size ${tick}`,
+          field
+        );
+      }
+
+      validated = Object.assign({}, validated, { [field]: rounded.toString() });
+    });
+
+    return validated;
+  }
+}
@@ -0,0 +1,345 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+import requestPromise = require("request-promise-native");
+
+import PaperBroker from "./PaperBroker";
+import { EVENTS } from "./Robinhood";
+import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
+import {
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+
+function quote(symbol, bid, ask, last = ask) {
+  return {
+    results: [
+      {
+        symbol,
+        bid_price: bid,
+        ask_price: ask,
+        last_trade_price: last,
+        updated_at: "2017-09-27T16:12:48Z"
+      }
+    ]
+  };
+}
+
+describe("PaperBroker", () => {
+  let requestDefaultsStub, instance, get, quoteStub;
+
+  beforeEach(done => {
+    get = sinon.stub();
+    quoteStub = get.withArgs({
+      uri: API_URL + ENDPOINTS.QUOTES,
+      qs: { symbols: "FB" }
+    });
+    quoteStub.resolves(quote("FB", "99.0000", "100.0000"));
+    requestDefaultsStub = sinon
+      .stub(requestPromise, "defaults")
+      .returns({ get, post: sinon.stub() });
+
+    instance = new PaperBroker({ cash: 1000 });
+    instance.authenticate({ authToken: "foobaz" });
+    instance.once(EVENTS.AUTHENTICATED, done);
+  });
+
+  afterEach(() => {
+    requestDefaultsStub.restore();
+  });
+
+  describe("#getAccounts", () => {
+    it("resolves the in memory account", done => {
+      instance.getAccounts().then(body => {
+        expect(body.results[0]).to.include({
+          account_number: "PAPER",
+          cash: "1000.0000",
+          buying_power: "1000.0000"
+        });
+        done();
+      });
+    });
+
+    it("doesn't request the accounts endpoint", () => {
+      expect(
+        get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).callCount
+      ).to.equal(0);
+    });
+  });
+
+  describe("#placeBuyOrder", () => {
+    it("fills market orders at the ask price", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "fb",
+          quantity: "5",
+          price: "105.00"
+        })
+        .then(order => {
+          expect(order).to.include({
+            state: APIOrderState.filled,
+            cumulative_quantity: "5.00000",
+            average_price: "100.00000000"
+          });
+          expect(order.executions.length).to.equal(1);
+
+          return instance.getAccounts();
+        })
+        .then(body => {
+          expect(body.results[0].cash).to.equal("500.0000");
+
+          return instance.fetchPositions();
+        })
+        .then(positions => {
+          expect(positions).to.deep.equal([
+            { symbol: "FB", quantity: 5, averagePrice: 100 }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects orders the account can't cover", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "20",
+          price: "105.00"
+        })
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.rejected);
+          expect(order.reject_reason).to.equal("Insufficient buying power");
+          expect(quoteStub.callCount).to.equal(0);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("holds limit orders until the price is reached", done => {
+      let orderId;
+
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          type: APIOrderType.limit,
+          time_in_force: APIOrderTimeInForce.gtc,
+          price: "95.00"
+        })
+        .then(order => {
+          orderId = order.id;
+          expect(order.state).to.equal(APIOrderState.confirmed);
+
+          return instance.getAccounts();
+        })
+        .then(body => {
+          expect(body.results[0].buying_power).to.equal("525.0000");
+          expect(body.results[0].cash_held_for_orders).to.equal("475.0000");
+
+          quoteStub.resolves(quote("FB", "93.0000", "94.0000"));
+          return instance.getOrder(orderId);
+        })
+        .then(order => {
+          expect(order).to.include({
+            state: APIOrderState.filled,
+            average_price: "94.00000000"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("fails orders and releases held cash when the quote fails", done => {
+      quoteStub.rejects({ statusCode: 500, message: "foo bar" });
+
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          type: APIOrderType.limit,
+          time_in_force: APIOrderTimeInForce.gtc,
+          price: "95.00"
+        })
+        .then(() => done(new Error("Expected the order to fail")))
+        .catch(error => {
+          expect(error.message).to.equal("foo bar");
+
+          return Promise.all([instance.getOrders(), instance.getAccounts()]);
+        })
+        .then(([orders, accounts]) => {
+          expect(orders.results[0]).to.include({
+            state: APIOrderState.failed,
+            reject_reason: "Unable to get a quote"
+          });
+          expect(accounts.results[0].buying_power).to.equal("1000.0000");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("cancels immediate or cancel orders that don't fill", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          type: APIOrderType.limit,
+          time_in_force: APIOrderTimeInForce.ioc,
+          price: "95.00"
+        })
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.cancelled);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#placeSellOrder", () => {
+    it("rejects selling shares that aren't held", done => {
+      instance
+        .placeSellOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "1",
+          price: "95.00"
+        })
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.rejected);
+          expect(order.reject_reason).to.equal("Not enough shares to sell");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("triggers stop orders once the price crosses the stop", done => {
+      let orderId;
+
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          price: "105.00"
+        })
+        .then(() =>
+          instance.placeSellOrder({
+            instrument: "http://baz.qux",
+            symbol: "FB",
+            quantity: "5",
+            trigger: APIOrderTrigger.stop,
+            time_in_force: APIOrderTimeInForce.gtc,
+            stop_price: "90.00",
+            price: null
+          })
+        )
+        .then(order => {
+          orderId = order.id;
+          expect(order.state).to.equal(APIOrderState.confirmed);
+
+          quoteStub.resolves(quote("FB", "89.0000", "89.5000", "89.2500"));
+          return instance.getOrder(orderId);
+        })
+        .then(order => {
+          expect(order).to.include({
+            state: APIOrderState.filled,
+            average_price: "89.00000000"
+          });
+
+          return instance.getAccounts();
+        })
+        .then(body => {
+          expect(body.results[0].cash).to.equal("945.0000");
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getPosition", () => {
+    it("resolves held positions in the API's shape", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          price: "105.00"
+        })
+        .then(() => instance.getPosition("fb"))
+        .then(position => {
+          expect(position).to.include({
+            instrument: "http://baz.qux",
+            symbol: "FB",
+            quantity: "5.0000",
+            average_buy_price: "100.0000",
+            shares_held_for_sells: "0.0000"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects when there's no position", done => {
+      instance.getPosition("FB").catch(error => {
+        expect(error).to.deep.equal({ detail: "Not found." });
+        done();
+      });
+    });
+  });
+
+  describe("#cancelOrder", () => {
+    it("cancels open orders and releases held cash", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          symbol: "FB",
+          quantity: "5",
+          type: APIOrderType.limit,
+          time_in_force: APIOrderTimeInForce.gtc,
+          price: "95.00"
+        })
+        .then(order => instance.cancelOrder(order).then(() => order.id))
+        .then(orderId => instance.getOrder(orderId))
+        .then(order => {
+          expect(order.state).to.equal(APIOrderState.cancelled);
+
+          return instance.getAccounts();
+        })
+        .then(body => {
+          expect(body.results[0].buying_power).to.equal("1000.0000");
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getOrders", () => {
+    it("lists orders newest first", done => {
+      let order = {
+        instrument: "http://baz.qux",
+        symbol: "FB",
+        quantity: "1",
+        price: "105.00"
+      };
+
+      instance
+        .placeBuyOrder(Object.assign({}, order))
+        .then(() => instance.placeBuyOrder(Object.assign({}, order)))
+        .then(() => instance.getOrders())
+        .then(body => {
+          expect(body.results.map(result => result.id)).to.deep.equal([
+            "paper-2",
+            "paper-1"
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+  });
+});
@@ -0,0 +1,516 @@
+import Robinhood, { PositionInterface, PositionsResponse } from "./Robinhood";
+import {
+  APIAccountInterface,
+  APIAccountResponse,
+  APIOrderCreateInterface,
+  APIOrderResponseInterface,
+  APIOrdersParameters,
+  APIOrdersResponse,
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType,
+  APIPositionsParameters,
+  APIQuoteInterface
+} from "./RobinhoodInterfaces";
+
+export interface PaperBrokerOptions {
+  cash?: number; // Starting cash, defaults to 10,000
+}
+
+export interface PaperPosition {
+  instrument: string;
+  symbol: string;
+  quantity: number;
+  averageBuyPrice: number;
+  sharesHeldForSells: number;
+  createdAt: string;
+}
+
+export interface PaperOrder {
+  order: APIOrderResponseInterface;
+  symbol: string;
+  held: number; // Cash held for buys, shares held for sells
+  triggered: boolean;
+}
+
+const DEFAULT_CASH = 10000;
+
+const PAPER_ACCOUNT_NUMBER = "PAPER";
+const PAPER_ACCOUNT_URL = `paper://accounts/${PAPER_ACCOUNT_NUMBER}/`;
+
+const TERMINAL_STATES = [
+  APIOrderState.filled,
+  APIOrderState.rejected,
+  APIOrderState.canceled,
+  APIOrderState.cancelled,
+  APIOrderState.failed
+];
+
+/**
+ * Paper trading broker, it authenticates against Robinhood to get real
+ * quotes but keeps account, positions and orders in memory
+ */
+export default class PaperBroker extends Robinhood {
+  protected cash: number;
+  protected orderCount: number = 0;
+  protected paperOrders: PaperOrder[] = [];
+  protected positions: { [instrument: string]: PaperPosition } = {};
+
+  constructor(options: PaperBrokerOptions = {}) {
+    super();
+
+    this.cash = options.cash == null ? DEFAULT_CASH : options.cash;
+  }
+
+  public getOrders(
+    optionsArg?: APIOrdersParameters
+  ): Promise<APIOrdersResponse> {
+    let options = Object.assign({}, optionsArg);
+
+    return this.fillOpenOrders().then(() => {
+      let results = this.paperOrders
+        .map(paperOrder => paperOrder.order)
+        .filter(
+          order =>
+            (!options.instrument || order.instrument === options.instrument) &&
+            (!options.updated_at || order.updated_at >= options.updated_at)
+        )
+        .reverse();
+
+      return { previous: null, results, next: null };
+    });
+  }
+
+  public getOrder(orderId): Promise<APIOrderResponseInterface> {
+    let paperOrder = this.findPaperOrder(orderId);
+
+    if (!paperOrder) {
+      return Promise.reject({ detail: "Not found." });
+    }
+
+    return this.fillOpenOrders().then(() => paperOrder.order);
+  }
+
+  public cancelOrder(order: APIOrderResponseInterface): Promise<{}> {
+    let paperOrder = this.findPaperOrder(order.id);
+
+    if (!paperOrder) {
+      return Promise.reject({ detail: "Not found." });
+    }
+
+    if (!TERMINAL_STATES.includes(paperOrder.order.state)) {
+      this.releaseHold(paperOrder);
+      this.updateOrder(paperOrder, { state: APIOrderState.cancelled });
+    }
+
+    return Promise.resolve({});
+  }
+
+  public getAccounts(): Promise<APIAccountResponse> {
+    return Promise.resolve({
+      previous: null,
+      results: [this.getPaperAccount()],
+      next: null
+    });
+  }
+
+  public getPositions(
+    optionsArg?: APIPositionsParameters
+  ): Promise<PositionsResponse> {
+    let options = Object.assign({}, optionsArg);
+
+    return Promise.resolve({
+      previous: null,
+      results: Object.keys(this.positions)
+        .map(instrument => this.toPositionInterface(this.positions[instrument]))
+        .filter(position => !options.nonzero || parseFloat(position.quantity)),
+      next: null
+    });
+  }
+
+  public getPosition(symbolOrInstrument: string): Promise<PositionInterface> {
+    let position = Object.keys(this.positions)
+      .map(instrument => this.positions[instrument])
+      .find(
+        position =>
+          position.instrument === symbolOrInstrument ||
+          position.symbol === symbolOrInstrument.toUpperCase()
+      );
+
+    if (!position) {
+      return Promise.reject({ detail: "Not found." });
+    }
+
+    return Promise.resolve(this.toPositionInterface(position));
+  }
+
+  /**
+   * Attempts to fill every open order against the latest quotes
+   */
+  public fillOpenOrders(): Promise<void> {
+    let openOrders = this.paperOrders.filter(
+      paperOrder => !TERMINAL_STATES.includes(paperOrder.order.state)
+    );
+
+    if (!openOrders.length) {
+      return Promise.resolve();
+    }
+
+    let symbols = Array.from(
+      new Set(openOrders.map(paperOrder => paperOrder.symbol))
+    );
+
+    return this.getQuote(symbols).then(body => {
+      let quotes: { [symbol: string]: APIQuoteInterface } = {};
+      body.results.forEach(quote => (quotes[quote.symbol] = quote));
+
+      openOrders.forEach(paperOrder => {
+        if (quotes[paperOrder.symbol]) {
+          this.fillOrder(paperOrder, quotes[paperOrder.symbol]);
+        }
+      });
+    });
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected placeOrder(
+    options: APIOrderCreateInterface
+  ): Promise<APIOrderResponseInterface> {
+    let now = this.now().toISOString();
+    let id = `paper-${++this.orderCount}`;
+    let symbol = options.symbol.toUpperCase();
+    let paperOrder: PaperOrder = {
+      symbol,
+      held: 0,
+      triggered: false,
+      order: {
+        account: PAPER_ACCOUNT_URL,
+        instrument: options.instrument,
+        time_in_force: options.time_in_force || APIOrderTimeInForce.gfd,
+        quantity: options.quantity,
+        type: options.type || APIOrderType.market,
+        trigger: options.trigger || APIOrderTrigger.immediate,
+        side: options.side,
+        price: options.price || null,
+        stop_price: options.stop_price || null,
+        extended_hours: options.extended_hours || false,
+        updated_at: now,
+        ref_id: null,
+        fees: "0.00",
+        cancel: null,
+        id,
+        cumulative_quantity: "0.00000",
+        reject_reason: null,
+        state: APIOrderState.confirmed,
+        last_transaction_at: null,
+        executions: [],
+        url: `paper://orders/${id}/`,
+        created_at: now,
+        position: `paper://positions/${options.instrument}/`,
+        average_price: null
+      }
+    };
+
+    this.paperOrders.push(paperOrder);
+    this.instrumentSymbols[options.instrument] = symbol;
+
+    let rejectReason = this.holdForOrder(paperOrder);
+    if (rejectReason) {
+      this.updateOrder(paperOrder, {
+        state: APIOrderState.rejected,
+        reject_reason: rejectReason
+      });
+
+      return Promise.resolve(paperOrder.order);
+    }
+
+    return this.getQuote(symbol).then(
+      body => {
+        this.fillOrder(paperOrder, body.results[0]);
+
+        // Immediate or cancel orders don't stick around
+        if (
+          [APIOrderTimeInForce.ioc, APIOrderTimeInForce.fok].includes(
+            paperOrder.order.time_in_force
+          ) &&
+          !TERMINAL_STATES.includes(paperOrder.order.state)
+        ) {
+          this.releaseHold(paperOrder);
+          this.updateOrder(paperOrder, { state: APIOrderState.cancelled });
+        }
+
+        return paperOrder.order;
+      },
+      error => {
+        // Nothing is left open or held for an order the caller never got
+        this.releaseHold(paperOrder);
+        this.updateOrder(paperOrder, {
+          state: APIOrderState.failed,
+          reject_reason: "Unable to get a quote"
+        });
+
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Holds cash for buys and shares for sells,
+   * returns a rejection reason when the account can't cover the order
+   */
+  protected holdForOrder(paperOrder: PaperOrder): string | null {
+    let order = paperOrder.order;
+    let quantity = parseFloat(order.quantity);
+
+    if (order.side === APIOrderSide.buy) {
+      let cost = quantity * parseFloat(order.price || order.stop_price);
+
+      if (cost > this.getBuyingPower()) {
+        return "Insufficient buying power";
+      }
+
+      paperOrder.held = cost;
+    } else {
+      let position = this.positions[order.instrument];
+
+      if (
+        !position ||
+        position.quantity - position.sharesHeldForSells < quantity
+      ) {
+        return "Not enough shares to sell";
+      }
+
+      position.sharesHeldForSells += quantity;
+      paperOrder.held = quantity;
+    }
+
+    return null;
+  }
+
+  protected releaseHold(paperOrder: PaperOrder): void {
+    let position = this.positions[paperOrder.order.instrument];
+
+    if (paperOrder.order.side === APIOrderSide.sell && position) {
+      position.sharesHeldForSells -= paperOrder.held;
+    }
+
+    paperOrder.held = 0;
+  }
+
+  protected fillOrder(paperOrder: PaperOrder, quote: APIQuoteInterface): void {
+    let order = paperOrder.order;
+
+    if (!quote || TERMINAL_STATES.includes(order.state)) {
+      return;
+    }
+
+    // Day orders expire once the day they were placed on is over
+    if (
+      order.time_in_force === APIOrderTimeInForce.gfd &&
+      order.created_at.slice(0, 10) !==
+        this.now()
+          .toISOString()
+          .slice(0, 10)
+    ) {
+      this.releaseHold(paperOrder);
+      this.updateOrder(paperOrder, { state: APIOrderState.cancelled });
+      return;
+    }
+
+    let price = this.getFillPrice(paperOrder, quote);
+    if (price == null) {
+      return;
+    }
+
+    let quantity = parseFloat(order.quantity);
+    let cost = price * quantity;
+
+    if (order.side === APIOrderSide.buy && cost > this.cash) {
+      this.releaseHold(paperOrder);
+      this.updateOrder(paperOrder, {
+        state: APIOrderState.rejected,
+        reject_reason: "Insufficient buying power"
+      });
+      return;
+    }
+
+    this.releaseHold(paperOrder);
+    this.updatePosition(paperOrder, quantity, price);
+
+    let now = this.now().toISOString();
+    this.updateOrder(paperOrder, {
+      state: APIOrderState.filled,
+      cumulative_quantity: quantity.toFixed(5),
+      average_price: price.toFixed(8),
+      last_transaction_at: now,
+      executions: order.executions.concat({
+        timestamp: now,
+        price: price.toFixed(8),
+        settlement_date: now.slice(0, 10),
+        id: `${order.id}-execution-${order.executions.length + 1}`,
+        quantity: quantity.toFixed(5)
+      })
+    });
+  }
+
+  /**
+   * Price an order would fill at given a quote,
+   * null if the order's trigger or limit price hasn't been reached
+   */
+  protected getFillPrice(
+    paperOrder: PaperOrder,
+    quote: APIQuoteInterface
+  ): number | null {
+    let order = paperOrder.order;
+    let isBuy = order.side === APIOrderSide.buy;
+    let last = parseFloat(
+      (order.extended_hours && quote.last_extended_hours_trade_price) ||
+        quote.last_trade_price
+    );
+    let price = parseFloat(isBuy ? quote.ask_price : quote.bid_price) || last;
+
+    if (order.trigger === APIOrderTrigger.stop && !paperOrder.triggered) {
+      let stopPrice = parseFloat(order.stop_price);
+
+      if (isBuy ? last < stopPrice : last > stopPrice) {
+        return null;
+      }
+
+      paperOrder.triggered = true;
+    }
+
+    if (order.type === APIOrderType.limit) {
+      let limitPrice = parseFloat(order.price);
+
+      if (isBuy ? price > limitPrice : price < limitPrice) {
+        return null;
+      }
+    }
+
+    return price;
+  }
+
+  protected updatePosition(
+    paperOrder: PaperOrder,
+    quantity: number,
+    price: number
+  ): void {
+    let instrument = paperOrder.order.instrument;
+    let position = this.positions[instrument] || {
+      instrument,
+      symbol: paperOrder.symbol,
+      quantity: 0,
+      averageBuyPrice: 0,
+      sharesHeldForSells: 0,
+      createdAt: this.now().toISOString()
+    };
+
+    if (paperOrder.order.side === APIOrderSide.buy) {
+      position.averageBuyPrice =
+        (position.averageBuyPrice * position.quantity + price * quantity) /
+        (position.quantity + quantity);
+      position.quantity += quantity;
+      this.cash -= price * quantity;
+    } else {
+      position.quantity -= quantity;
+      this.cash += price * quantity;
+
+      if (!position.quantity) {
+        position.averageBuyPrice = 0;
+      }
+    }
+
+    this.positions[instrument] = position;
+  }
+
+  protected updateOrder(
+    paperOrder: PaperOrder,
+    changes: Partial<APIOrderResponseInterface>
+  ): void {
+    paperOrder.order = Object.assign({}, paperOrder.order, changes, {
+      updated_at: this.now().toISOString()
+    });
+  }
+
+  /**
+   * Current time for the broker, order timestamps and day order expiration
+   * are based off of it
+   */
+  protected now(): Date {
+    return new Date();
+  }
+
+  protected toPositionInterface(position: PaperPosition): PositionInterface {
+    return {
+      account: PAPER_ACCOUNT_URL,
+      intraday_quantity: "0.0000",
+      intraday_average_buy_price: "0.0000",
+      url: `paper://positions/${position.instrument}/`,
+      created_at: position.createdAt,
+      updated_at: this.now().toISOString(),
+      shares_held_for_buys: "0.0000",
+      average_buy_price: position.averageBuyPrice.toFixed(4),
+      instrument: position.instrument,
+      shares_held_for_sells: position.sharesHeldForSells.toFixed(4),
+      quantity: position.quantity.toFixed(4),
+      symbol: position.symbol
+    };
+  }
+
+  protected findPaperOrder(orderId: string): PaperOrder {
+    return this.paperOrders.find(paperOrder => paperOrder.order.id === orderId);
+  }
+
+  protected getCashHeldForOrders(): number {
+    return this.paperOrders
+      .filter(
+        paperOrder =>
+          paperOrder.order.side === APIOrderSide.buy &&
+          !TERMINAL_STATES.includes(paperOrder.order.state)
+      )
+      .reduce((total, paperOrder) => total + paperOrder.held, 0);
+  }
+
+  protected getBuyingPower(): number {
+    return this.cash - this.getCashHeldForOrders();
+  }
+
+  protected getPaperAccount(): APIAccountInterface {
+    let now = this.now().toISOString();
+
+    return {
+      deactivated: false,
+      updated_at: now,
+      margin_balances: null,
+      portfolio: `${PAPER_ACCOUNT_URL}portfolio/`,
+      cash_balances: null,
+      can_downgrade_to_cash: null,
+      withdrawal_halted: false,
+      cash_available_for_withdrawal: this.cash.toFixed(4),
+      type: "cash",
+      sma: null,
+      sweep_enabled: false,
+      deposit_halted: false,
+      buying_power: this.getBuyingPower().toFixed(4),
+      user: null,
+      max_ach_early_access_amount: "0.00",
+      instant_eligibility: null,
+      cash_held_for_orders: this.getCashHeldForOrders().toFixed(4),
+      only_position_closing_trades: false,
+      url: PAPER_ACCOUNT_URL,
+      positions: `${PAPER_ACCOUNT_URL}positions/`,
+      created_at: now,
+      cash: this.cash.toFixed(4),
+      sma_held_for_orders: null,
+      unsettled_debit: "0.0000",
+      account_number: PAPER_ACCOUNT_NUMBER,
+      uncleared_deposits: "0.0000",
+      unsettled_funds: "0.0000"
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import RateLimiter, {
+  RATE_LIMITER_EVENTS,
+  REQUEST_PRIORITIES
+} from "./RateLimiter";
+import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
+
+describe("RateLimiter", () => {
+  let clock, request, instance;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    request = {
+      get: sinon.stub().resolves({ foo: "bar" }),
+      post: sinon.stub().resolves({ baz: "qux" })
+    };
+    instance = new RateLimiter({
+      global: { capacity: 2, refillRate: 1 },
+      endpoints: { [ENDPOINTS.QUOTES]: { capacity: 1, refillRate: 0.5 } }
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  describe("#wrap", () => {
+    it("sends requests right away while there's budget", done => {
+      let wrapped = instance.wrap(request);
+
+      wrapped.get({ uri: API_URL + ENDPOINTS.ACCOUNTS }).then(body => {
+        expect(body).to.deep.equal({ foo: "bar" });
+        expect(request.get.args[0]).to.deep.equal([
+          { uri: API_URL + ENDPOINTS.ACCOUNTS }
+        ]);
+        done();
+      });
+    });
+
+    it("rejects with the request's error", done => {
+      request.get.rejects({ detail: "foobar" });
+
+      instance
+        .wrap(request)
+        .get({ uri: API_URL + ENDPOINTS.ACCOUNTS })
+        .catch(error => {
+          expect(error).to.deep.equal({ detail: "foobar" });
+          done();
+        });
+    });
+
+    it("holds requests until the global bucket refills", () => {
+      let wrapped = instance.wrap(request);
+
+      wrapped.get({ uri: API_URL + ENDPOINTS.ACCOUNTS });
+      wrapped.get({ uri: API_URL + ENDPOINTS.ACCOUNTS });
+      wrapped.get({ uri: API_URL + ENDPOINTS.ACCOUNTS });
+
+      expect(request.get.callCount).to.equal(2);
+      expect(instance.getQueueDepth()).to.equal(1);
+
+      clock.tick(1000);
+      expect(request.get.callCount).to.equal(3);
+      expect(instance.getQueueDepth()).to.equal(0);
+    });
+
+    it("enforces endpoint budgets without holding up others", () => {
+      let wrapped = instance.wrap(request);
+
+      wrapped.get({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "FB" } });
+      wrapped.get({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "FB" } });
+      wrapped.get({ uri: API_URL + ENDPOINTS.ACCOUNTS });
+
+      expect(request.get.callCount).to.equal(2);
+      expect(request.get.args[1][0].uri).to.equal(API_URL + ENDPOINTS.ACCOUNTS);
+
+      clock.tick(1999);
+      expect(request.get.callCount).to.equal(2);
+      clock.tick(1);
+      expect(request.get.callCount).to.equal(3);
+    });
+  });
+
+  describe("#schedule", () => {
+    it("sends orders and cancellations ahead of quotes", () => {
+      let sent = [];
+      let send = name => () => {
+        sent.push(name);
+        return Promise.resolve();
+      };
+
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send("accounts"));
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send("accounts"));
+      instance.schedule("get", API_URL + ENDPOINTS.QUOTES, send("quotes"));
+      instance.schedule("get", API_URL + ENDPOINTS.ORDERS, send("orders"));
+      instance.schedule("post", API_URL + "orders/foo/cancel/", send("cancel"));
+      instance.schedule("post", API_URL + ENDPOINTS.ORDERS, send("place"));
+
+      clock.tick(1000 * 10);
+      expect(sent).to.deep.equal([
+        "accounts",
+        "accounts",
+        "cancel",
+        "place",
+        "orders",
+        "quotes"
+      ]);
+    });
+
+    it("keeps draining when a request throws", done => {
+      let send = () => Promise.resolve("baz");
+
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send);
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send);
+      let failed = instance.schedule(
+        "get",
+        API_URL + ENDPOINTS.ACCOUNTS,
+        () => {
+          throw new Error("foo bar");
+        }
+      );
+      let sent = instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send);
+      clock.tick(1000 * 10);
+
+      Promise.all([failed.catch(error => error.message), sent])
+        .then(results => {
+          expect(results).to.deep.equal(["foo bar", "baz"]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("sends movers requests in either direction with low priority", () => {
+      let queuedListener = sinon.stub();
+      instance.on(RATE_LIMITER_EVENTS.REQUEST_QUEUED, queuedListener);
+
+      instance.schedule("get", API_URL + ENDPOINTS.SP500_DOWN, () =>
+        Promise.resolve()
+      );
+
+      expect(queuedListener.args[0][0].priority).to.equal(
+        REQUEST_PRIORITIES.LOW
+      );
+    });
+
+    it("emits queue depth and wait time", () => {
+      let queuedListener = sinon.stub();
+      let sentListener = sinon.stub();
+      let send = () => Promise.resolve();
+
+      instance.on(RATE_LIMITER_EVENTS.REQUEST_QUEUED, queuedListener);
+      instance.on(RATE_LIMITER_EVENTS.REQUEST_SENT, sentListener);
+
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send);
+      instance.schedule("get", API_URL + ENDPOINTS.ACCOUNTS, send);
+      instance.schedule("get", API_URL + "orders/foo/", send);
+      clock.tick(1000);
+
+      expect(queuedListener.lastCall.args).to.deep.equal([
+        {
+          endpoint: ENDPOINTS.ORDER,
+          priority: REQUEST_PRIORITIES.NORMAL,
+          queueDepth: 1
+        }
+      ]);
+      expect(sentListener.lastCall.args).to.deep.equal([
+        {
+          endpoint: ENDPOINTS.ORDER,
+          priority: REQUEST_PRIORITIES.NORMAL,
+          queueDepth: 0,
+          waitTime: 1000
+        }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import EventEmitter = require("events");
+
+import { ENDPOINTS, findEndpoint } from "./RobinhoodAPIConfiguration";
+
+export interface BucketOptions {
+  capacity: number; // Maximum burst of requests
+  refillRate: number; // Requests per second
+}
+
+export interface RateLimiterOptions {
+  global?: BucketOptions; // Budget shared by every request
+  endpoints?: { [endpoint: string]: BucketOptions }; // Keyed by ENDPOINTS
+}
+
+export interface RequestQueuedEvent {
+  endpoint: string;
+  priority: REQUEST_PRIORITIES;
+  queueDepth: number;
+}
+
+export interface RequestSentEvent extends RequestQueuedEvent {
+  waitTime: number; // Milliseconds spent in the queue
+}
+
+interface RequestLike {
+  get(options: any): PromiseLike<any>;
+  post(options: any): PromiseLike<any>;
+  delete?(options: any): PromiseLike<any>;
+}
+
+interface Bucket extends BucketOptions {
+  tokens: number;
+  lastRefill: number;
+}
+
+interface QueuedRequest {
+  endpoint: string;
+  priority: REQUEST_PRIORITIES;
+  queuedAt: number;
+  send: () => void;
+}
+
+export const enum REQUEST_PRIORITIES {
+  HIGH = 0,
+  NORMAL = 1,
+  LOW = 2
+}
+
+export const enum RATE_LIMITER_EVENTS {
+  REQUEST_QUEUED = "REQUEST_QUEUED",
+  REQUEST_SENT = "REQUEST_SENT"
+}
+
+const DEFAULT_OPTIONS: RateLimiterOptions = {
+  global: { capacity: 10, refillRate: 2 },
+  endpoints: {
+    [ENDPOINTS.QUOTES]: { capacity: 5, refillRate: 1 },
+    [ENDPOINTS.HISTORICALS]: { capacity: 2, refillRate: 0.5 }
+  }
+};
+
+// Getting orders in and out matters more than fresh market data
+const HIGH_PRIORITY_ENDPOINTS = [
+  ENDPOINTS.LOGIN,
+  ENDPOINTS.ORDERS,
+  ENDPOINTS.CANCEL_ORDER
+];
+const LOW_PRIORITY_ENDPOINTS = [
+  ENDPOINTS.QUOTES,
+  ENDPOINTS.HISTORICALS,
+  // Both directions share a path so findEndpoint finds them as SP500_UP,
+  // SP500_DOWN is listed in case that ever changes
+  ENDPOINTS.SP500_UP,
+  ENDPOINTS.SP500_DOWN,
+  ENDPOINTS.NEWS
+];
+
+/**
+ * Token bucket rate limiter for API requests.
+ * Requests wait in a queue ordered by priority until both the global
+ * and their endpoint's bucket have a token available.
+ */
+export default class RateLimiter extends EventEmitter {
+  protected buckets: { [endpoint: string]: Bucket } = {};
+  protected globalBucket: Bucket;
+  protected queue: QueuedRequest[] = [];
+  protected timeout: NodeJS.Timer = null;
+
+  constructor(options: RateLimiterOptions = {}) {
+    super();
+
+    this.globalBucket = this.createBucket(
+      options.global || DEFAULT_OPTIONS.global
+    );
+
+    let endpoints = options.endpoints || DEFAULT_OPTIONS.endpoints;
+    Object.keys(endpoints).forEach(
+      endpoint =>
+        (this.buckets[endpoint] = this.createBucket(endpoints[endpoint]))
+    );
+  }
+
+  /**
+   * Wraps a request-promise instance so every request goes through the queue
+   */
+  public wrap<T extends RequestLike>(request: T): T {
+    let wrapped = Object.create(request);
+
+    ["get", "post", "delete"].forEach(method => {
+      wrapped[method] = options =>
+        this.schedule(method, options.uri, () => request[method](options));
+    });
+
+    return wrapped;
+  }
+
+  /**
+   * Queues a request, resolves or rejects with the request once it's sent
+   * @param  method {String} HTTP method
+   * @param  uri {String} Used to find the endpoint and the request's priority
+   * @param  send {Function} Makes the request
+   */
+  public schedule<T>(
+    method: string,
+    uri: string,
+    send: () => PromiseLike<T>
+  ): Promise<T> {
+    let endpoint = findEndpoint(uri);
+    let priority = this.getPriority(method, endpoint);
+
+    return new Promise<T>((resolve, reject) => {
+      let queued = {
+        endpoint,
+        priority,
+        queuedAt: Date.now(),
+        send: () => {
+          // Throwing instead of rejecting would stop the queue from draining
+          try {
+            send().then(resolve, reject);
+          } catch (error) {
+            reject(error);
+          }
+        }
+      };
+
+      // Keep requests ordered by priority, first in first out within one
+      let index = this.queue.findIndex(request => request.priority > priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, queued);
+
+      this.emit(RATE_LIMITER_EVENTS.REQUEST_QUEUED, {
+        endpoint,
+        priority,
+        queueDepth: this.queue.length
+      });
+
+      this.processQueue();
+    });
+  }
+
+  public getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected processQueue(): void {
+    let now = Date.now();
+
+    this.refill(this.globalBucket, now);
+    Object.keys(this.buckets).forEach(endpoint =>
+      this.refill(this.buckets[endpoint], now)
+    );
+
+    // Requests whose endpoint is out of tokens don't hold up the others
+    for (let i = 0; i < this.queue.length && this.globalBucket.tokens >= 1; ) {
+      let queued = this.queue[i];
+      let bucket = this.buckets[queued.endpoint];
+
+      if (bucket && bucket.tokens < 1) {
+        i++;
+        continue;
+      }
+
+      this.globalBucket.tokens--;
+      if (bucket) {
+        bucket.tokens--;
+      }
+
+      this.queue.splice(i, 1);
+      this.emit(RATE_LIMITER_EVENTS.REQUEST_SENT, {
+        endpoint: queued.endpoint,
+        priority: queued.priority,
+        queueDepth: this.queue.length,
+        waitTime: now - queued.queuedAt
+      });
+      queued.send();
+    }
+
+    this.scheduleNext();
+  }
+
+  protected scheduleNext(): void {
+    if (this.timeout || !this.queue.length) {
+      return;
+    }
+
+    let wait = Math.max(
+      this.timeUntilToken(this.globalBucket),
+      Math.min(
+        ...this.queue.map(queued =>
+          this.timeUntilToken(this.buckets[queued.endpoint])
+        )
+      )
+    );
+
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.processQueue();
+    }, wait);
+  }
+
+  protected createBucket(options: BucketOptions): Bucket {
+    return Object.assign({}, options, {
+      tokens: options.capacity,
+      lastRefill: Date.now()
+    });
+  }
+
+  protected refill(bucket: Bucket, now: number): void {
+    bucket.tokens = Math.min(
+      bucket.capacity,
+      bucket.tokens + (now - bucket.lastRefill) / 1000 * bucket.refillRate
+    );
+    bucket.lastRefill = now;
+  }
+
+  protected timeUntilToken(bucket: Bucket): number {
+    if (!bucket || bucket.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil((1 - bucket.tokens) / bucket.refillRate * 1000);
+  }
+
+  protected getPriority(method: string, endpoint: string): REQUEST_PRIORITIES {
+    if (
+      HIGH_PRIORITY_ENDPOINTS.includes(endpoint) &&
+      (method === "post" || endpoint !== ENDPOINTS.ORDERS)
+    ) {
+      return REQUEST_PRIORITIES.HIGH;
+    }
+
+    return LOW_PRIORITY_ENDPOINTS.includes(endpoint)
+      ? REQUEST_PRIORITIES.LOW
+      : REQUEST_PRIORITIES.NORMAL;
+  }
+}
@@ -0,0 +1,131 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import RetryPolicy from "./RetryPolicy";
+
+function statusCodeError(statusCode, headers = {}) {
+  return { statusCode, response: { headers } };
+}
+
+describe("RetryPolicy", () => {
+  let instance;
+
+  beforeEach(() => {
+    instance = new RetryPolicy({ minDelay: 0, methods: { getQuote: 1 } });
+  });
+
+  describe("#isRetryable", () => {
+    it("retries network failures", () => {
+      expect(instance.isRetryable({ cause: { code: "ECONNRESET" } })).to.equal(
+        true
+      );
+      expect(instance.isRetryable({ code: "ETIMEDOUT" })).to.equal(true);
+    });
+
+    it("retries throttling and server errors", () => {
+      [429, 500, 502, 503, 504].forEach(statusCode =>
+        expect(instance.isRetryable(statusCodeError(statusCode))).to.equal(true)
+      );
+    });
+
+    it("doesn't retry client errors", () => {
+      expect(instance.isRetryable(statusCodeError(400))).to.equal(false);
+      expect(instance.isRetryable({ detail: "Invalid token." })).to.equal(
+        false
+      );
+    });
+  });
+
+  describe("#getDelay", () => {
+    beforeEach(() => {
+      instance = new RetryPolicy({ minDelay: 500, maxDelay: 3000 });
+    });
+
+    it("backs off exponentially with jitter", () => {
+      [[0, 500], [1, 1000], [2, 2000], [5, 3000]].forEach(([retries, max]) => {
+        let delay = instance.getDelay(retries);
+
+        expect(delay).to.be.at.least(0);
+        expect(delay).to.be.at.most(max);
+      });
+    });
+
+    it("waits as long as the Retry-After header says", () => {
+      expect(
+        instance.getDelay(0, statusCodeError(429, { "retry-after": "120" }))
+      ).to.equal(120000);
+    });
+
+    it("accepts dates in the Retry-After header", () => {
+      let clock = sinon.useFakeTimers(Date.parse("2017-09-27T16:12:48Z"));
+
+      expect(
+        instance.getDelay(
+          0,
+          statusCodeError(503, {
+            "retry-after": "Wed, 27 Sep 2017 16:13:48 GMT"
+          })
+        )
+      ).to.equal(60000);
+      clock.restore();
+    });
+  });
+
+  describe("#run", () => {
+    it("retries until the request succeeds", done => {
+      let request = sinon.stub();
+      request.onFirstCall().rejects(statusCodeError(502));
+      request.onSecondCall().rejects({ code: "ECONNRESET" });
+      request.onThirdCall().resolves({ foo: "bar" });
+
+      instance.run("getOrders", request).then(body => {
+        expect(body).to.deep.equal({ foo: "bar" });
+        expect(request.callCount).to.equal(3);
+        done();
+      });
+    });
+
+    it("gives up once the method's budget is spent", done => {
+      let request = sinon.stub().rejects(statusCodeError(503));
+
+      instance.run("getQuote", request).catch(error => {
+        expect(error).to.deep.equal(statusCodeError(503));
+        expect(request.callCount).to.equal(2);
+        done();
+      });
+    });
+
+    it("doesn't retry errors that aren't transient", done => {
+      let request = sinon.stub().rejects({ detail: "foobar" });
+
+      instance.run("getOrders", request).catch(error => {
+        expect(error).to.deep.equal({ detail: "foobar" });
+        expect(request.callCount).to.equal(1);
+        done();
+      });
+    });
+
+    it("resolves with what recover finds instead of retrying", done => {
+      let request = sinon.stub().rejects({ code: "ESOCKETTIMEDOUT" });
+      let recover = sinon.stub().resolves({ id: "foo" });
+
+      instance.run("placeOrder", request, recover).then(body => {
+        expect(body).to.deep.equal({ id: "foo" });
+        expect(request.callCount).to.equal(1);
+        done();
+      });
+    });
+
+    it("rejects with the original error when recover fails", done => {
+      let request = sinon.stub().rejects({ code: "ESOCKETTIMEDOUT" });
+      let recover = sinon.stub().rejects({ detail: "foobar" });
+
+      instance.run("placeOrder", request, recover).catch(error => {
+        expect(error).to.deep.equal({ code: "ESOCKETTIMEDOUT" });
+        expect(request.callCount).to.equal(1);
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+export interface RetryPolicyOptions {
+  retries?: number; // Retry budget for every method
+  methods?: { [method: string]: number }; // Retry budget by client method
+  minDelay?: number; // Milliseconds before the first retry
+  maxDelay?: number; // Backoff never waits longer than this
+  factor?: number; // Backoff multiplier
+}
+
+const DEFAULT_OPTIONS: RetryPolicyOptions = {
+  retries: 3,
+  methods: {},
+  minDelay: 500,
+  maxDelay: 1000 * 30, // 30 seconds
+  factor: 2
+};
+
+const RETRYABLE_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ESOCKETTIMEDOUT",
+  "ETIMEDOUT"
+];
+
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
+/**
+ * Retries transient network and server failures using exponential backoff
+ * with full jitter, a `Retry-After` header takes precedence over the backoff
+ */
+export default class RetryPolicy {
+  protected options: RetryPolicyOptions;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+  }
+
+  /**
+   * Makes a request, retrying it while it fails with a transient error
+   * @param  method {String} Client method, used to look up its retry budget
+   * @param  request {Function} Makes the request
+   * @param  recover {Function} Called before retrying, resolving with a value
+   *                            uses it as the result instead of retrying
+   */
+  public run<T>(
+    method: string,
+    request: () => Promise<T>,
+    recover?: (error: any) => Promise<T | null>
+  ): Promise<T> {
+    let attempt = (retries: number): Promise<T> =>
+      request().catch(error => {
+        if (retries >= this.getBudget(method) || !this.isRetryable(error)) {
+          return Promise.reject(error);
+        }
+
+        let retry = () =>
+          this.wait(this.getDelay(retries, error)).then(() =>
+            attempt(retries + 1)
+          );
+
+        if (!recover) {
+          return retry();
+        }
+
+        return recover(error).then(
+          result => (result == null ? retry() : result),
+          () => Promise.reject(error)
+        );
+      });
+
+    return attempt(0);
+  }
+
+  public isRetryable(error: any): boolean {
+    if (!error) {
+      return false;
+    }
+
+    let code = error.code || (error.cause && error.cause.code);
+
+    return (
+      RETRYABLE_CODES.includes(code) ||
+      RETRYABLE_STATUS_CODES.includes(error.statusCode)
+    );
+  }
+
+  public getBudget(method: string): number {
+    let budget = this.options.methods[method];
+
+    return budget == null ? this.options.retries : budget;
+  }
+
+  /**
+   * Milliseconds to wait before a retry
+   * @param  retries {Number} Retries made so far
+   * @param  error {any} Error from request
+   */
+  public getDelay(retries: number, error?: any): number {
+    let retryAfter = this.getRetryAfter(error);
+
+    if (retryAfter != null) {
+      return retryAfter;
+    }
+
+    let backoff = Math.min(
+      this.options.maxDelay,
+      this.options.minDelay * Math.pow(this.options.factor, retries)
+    );
+
+    return Math.round(Math.random() * backoff);
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  /**
+   * Parses the `Retry-After` header, it's either seconds or an HTTP date
+   */
+  protected getRetryAfter(error: any): number | null {
+    let headers = error && error.response && error.response.headers;
+    let retryAfter = headers && headers["retry-after"];
+
+    if (!retryAfter) {
+      return null;
+    }
+
+    if (/^\d+$/.test(retryAfter)) {
+      return parseInt(retryAfter, 10) * 1000;
+    }
+
+    let date = Date.parse(retryAfter);
+
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  protected wait(milliseconds: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+  }
+}
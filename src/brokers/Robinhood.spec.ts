@@ -2,14 +2,38 @@ import {} from "mocha";
 const { expect } = require("chai");
 import sinon = require("sinon");
 import requestPromise = require("request-promise-native");
+import util = require("util");
 
+import OrderValidator from "./OrderValidator";
+import RateLimiter from "./RateLimiter";
+import RetryPolicy from "./RetryPolicy";
+import SchemaValidator, { SchemaError } from "./SchemaValidator";
 import Robinhood, { EVENTS, ERRORS } from "./Robinhood";
 import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
 import {
+  ACHTransferError,
+  AuthenticationError,
+  AuthenticationMFAError,
+  InstrumentNotFoundError,
+  InvalidRobinhoodConfigurationError,
+  NoAuthTokenError,
+  OrderValidationError,
+  RobinhoodError,
+  SettingAccountError,
+  UnableToAuthenticateError
+} from "./RobinhoodErrors";
+import { MemorySessionStore } from "./SessionStore";
+import {
+  APIACHTransferDirection,
+  APIACHTransferState,
+  APIHistoricalsBounds,
+  APIHistoricalsInterval,
+  APIHistoricalsSpan,
   APIOrderTimeInForce,
   APIOrderType,
   APIOrderTrigger,
-  APIOrderState
+  APIOrderState,
+  APIOrderSide
 } from "./RobinhoodInterfaces";
 
 const DEFAULT_HEADERS = {
@@ -574,6 +598,203 @@ describe("Robinhood", () => {
     });
   });
 
+  describe("#authenticate returning a promise", () => {
+    let instance, credentials, requestDefaultsStub;
+    let accountsEndpointStub, loginEndpointStub, mfaEndpointStub;
+
+    beforeEach(() => {
+      credentials = { username: "foo", password: "bar" };
+
+      let get = sinon.stub();
+      accountsEndpointStub = get
+        .withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS })
+        .resolves({ results: [{ url: "http://foo.bar/baz" }] });
+      let post = sinon.stub();
+      loginEndpointStub = post
+        .withArgs({ uri: API_URL + ENDPOINTS.LOGIN, form: credentials })
+        .resolves({ token: "foobarbaz" });
+      mfaEndpointStub = post
+        .withArgs({
+          uri: API_URL + ENDPOINTS.LOGIN,
+          form: Object.assign({ mfa_code: "123456" }, credentials)
+        })
+        .resolves({ token: "foobarbaz" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("resolves once the account is set up", done => {
+      let authenticated = sinon.spy();
+      instance.on(EVENTS.AUTHENTICATED, authenticated);
+
+      instance.authenticate({ credentials }).then(() => {
+        expect(authenticated.callCount).to.equal(1);
+        expect(instance.getAuthToken()).to.equal("foobarbaz");
+        done();
+      });
+    });
+
+    it("rejects with the error class of the failure", done => {
+      let statusCodeError = { message: "Bad request", statusCode: 400 };
+      loginEndpointStub.rejects(statusCodeError);
+
+      instance.authenticate({ credentials }).catch(error => {
+        expect(error).to.be.an.instanceof(AuthenticationError);
+        expect(error).to.be.an.instanceof(RobinhoodError);
+        expect(error).to.be.an.instanceof(Error);
+        expect(error.type).to.equal(ERRORS.AUTHENTICATION);
+        expect(error.message).to.equal("Bad request");
+        expect(error.status).to.equal(400);
+        expect(error.cause).to.equal(statusCodeError);
+        done();
+      });
+    });
+
+    it("keeps emitting error events", done => {
+      accountsEndpointStub.rejects({ message: "foo bar" });
+
+      let errorEvent = sinon.spy();
+      instance.on(EVENTS.ERROR, errorEvent);
+
+      instance.authenticate({ authToken: "foobaz" }).catch(error => {
+        expect(error).to.be.an.instanceof(SettingAccountError);
+        expect(error.status).to.equal(null);
+        expect(errorEvent.args[0]).to.deep.equal([
+          { type: ERRORS.SETTING_ACCOUNT, message: "foo bar" }
+        ]);
+        done();
+      });
+    });
+
+    it("resolves after MFA when it's requested", done => {
+      loginEndpointStub.resolves({ mfa_required: true, mfa_type: "sms" });
+      instance.on(EVENTS.MFA_REQUESTED, () => instance.loginWithMFA("123456"));
+
+      instance.authenticate({ credentials }).then(() => {
+        expect(mfaEndpointStub.callCount).to.equal(1);
+        expect(accountsEndpointStub.callCount).to.equal(1);
+        done();
+      });
+    });
+
+    it("rejects logging in with MFA with the error class", done => {
+      loginEndpointStub.resolves({ mfa_required: true, mfa_type: "sms" });
+      mfaEndpointStub.rejects({ message: "Invalid code", statusCode: 400 });
+      instance.on(EVENTS.MFA_REQUESTED, () => {
+        instance.loginWithMFA("123456").catch(error => {
+          expect(error).to.be.an.instanceof(AuthenticationMFAError);
+          expect(error.type).to.equal(ERRORS.AUTHENTICATION_MFA);
+          expect(error.status).to.equal(400);
+          done();
+        });
+      });
+
+      instance.authenticate({ credentials });
+    });
+
+    it("throws a configuration error without options", () => {
+      expect(() => instance.authenticate()).to.throw(
+        InvalidRobinhoodConfigurationError
+      );
+    });
+  });
+
+  describe("#authenticate using a session store", () => {
+    let requestDefaultsStub, instance, get, post, sessionStore, credentials;
+
+    beforeEach(() => {
+      credentials = { username: "foo", password: "bar" };
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      post = sinon.stub();
+      post
+        .withArgs(sinon.match({ uri: API_URL + ENDPOINTS.LOGIN }))
+        .resolves({ token: "foobarbaz" });
+      post
+        .withArgs(sinon.match({ uri: API_URL + ENDPOINTS.LOGOUT }))
+        .resolves({});
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      sessionStore = new MemorySessionStore();
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("restores a saved session without logging in", done => {
+      sessionStore.save({
+        authToken: "quxquxx",
+        account: { url: "http://foo.bar/qux" }
+      });
+
+      instance.on(EVENTS.AUTHENTICATED, () => {
+        expect(post.callCount).to.equal(0);
+        expect(get.callCount).to.equal(0);
+        expect(instance.getAuthToken()).to.equal("quxquxx");
+        expect(requestDefaultsStub.lastCall.args[0].headers).to.deep.equal(
+          Object.assign({ Authorization: "Token quxquxx" }, DEFAULT_HEADERS)
+        );
+        done();
+      });
+      instance.authenticate({ credentials, sessionStore });
+    });
+
+    it("logs in and saves the session when there isn't one", done => {
+      instance.on(EVENTS.AUTHENTICATED, () => {
+        expect(post.callCount).to.equal(1);
+        sessionStore.load().then(session => {
+          expect(session).to.deep.equal({
+            authToken: "foobarbaz",
+            account: { url: "http://foo.bar/baz" }
+          });
+          done();
+        });
+      });
+      instance.authenticate({ credentials, sessionStore });
+    });
+
+    it("logs in and emits an error when the session can't be loaded", done => {
+      let errorListenerStub = sinon.stub();
+      sessionStore.load = () => Promise.reject(new Error("foo bar"));
+
+      instance.on(EVENTS.ERROR, errorListenerStub);
+      instance.on(EVENTS.AUTHENTICATED, () => {
+        expect(errorListenerStub.args[0]).to.deep.equal([
+          { type: ERRORS.SESSION_STORE, message: "foo bar" }
+        ]);
+        expect(instance.getAuthToken()).to.equal("foobarbaz");
+        done();
+      });
+      instance.authenticate({ credentials, sessionStore });
+    });
+
+    it("clears the session when the token is expired", done => {
+      instance.once(EVENTS.AUTHENTICATED, () => {
+        instance
+          .expireToken()
+          .then(() => sessionStore.load())
+          .then(session => {
+            expect(session).to.equal(null);
+            done();
+          });
+      });
+      instance.authenticate({ credentials, sessionStore });
+    });
+  });
+
   describe("#getAuthToken", () => {
     it("returns null when there's no auth token", () => {
       let instance = new Robinhood();
@@ -732,9 +953,8 @@ describe("Robinhood", () => {
         //
       },
       error => {
-        expect(error).to.deep.equal({
-          message: ERRORS.NO_AUTH_TOKEN
-        });
+        expect(error).to.be.an.instanceof(NoAuthTokenError);
+        expect(error.type).to.equal(ERRORS.NO_AUTH_TOKEN);
 
         requestDefaultsStub.restore();
         done();
@@ -1054,10 +1274,29 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getQuote("FB");
+        instance.getQuote("FB").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
+      it("rejects when it's unable to authenticate again", done => {
+        post.reset();
+        post.rejects({ message: "bazquxquxx" });
+
+        instance
+          .getQuote("FB")
+          .then(() => done(new Error("Expected getQuote to reject")))
+          .catch(error => {
+            expect(error).to.be.an.instanceof(UnableToAuthenticateError);
+            expect(error.message).to.equal(
+              "Invalid token and unable to authenticate"
+            );
+            expect(error.cause).to.be.an.instanceof(AuthenticationError);
+            expect(criticalErrorListenerStub.callCount).to.equal(1);
+            done();
+          })
+          .catch(done);
+      });
+
       it("emits critical error if login request fails", done => {
         post.reset();
         post
@@ -1084,7 +1323,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getQuote("FB");
+        instance.getQuote("FB").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -1311,7 +1550,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getInstrument("baz-qux");
+        instance.getInstrument("baz-qux").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -1341,7 +1580,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getInstrument("baz-qux");
+        instance.getInstrument("baz-qux").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -1575,7 +1814,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getInstrumentBySymbol("BAR");
+        instance.getInstrumentBySymbol("BAR").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -1605,7 +1844,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getInstrumentBySymbol("BAR");
+        instance.getInstrumentBySymbol("BAR").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -1895,7 +2134,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.placeBuyOrder(orderObject);
+        instance.placeBuyOrder(orderObject).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -1925,7 +2164,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.placeBuyOrder(orderObject);
+        instance.placeBuyOrder(orderObject).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -2211,7 +2450,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.placeSellOrder(orderObject);
+        instance.placeSellOrder(orderObject).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -2241,7 +2480,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.placeSellOrder(orderObject);
+        instance.placeSellOrder(orderObject).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -2496,7 +2735,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getOrders();
+        instance.getOrders().catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -2526,7 +2765,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getOrders();
+        instance.getOrders().catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -2746,7 +2985,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getOrder("baz-qux");
+        instance.getOrder("baz-qux").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -2776,7 +3015,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getOrder("baz-qux");
+        instance.getOrder("baz-qux").catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -3023,7 +3262,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.cancelOrder({ id: "foobar" });
+        instance.cancelOrder({ id: "foobar" }).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -3053,7 +3292,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.cancelOrder({ id: "foobar" });
+        instance.cancelOrder({ id: "foobar" }).catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
@@ -3269,7 +3508,7 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getAccounts();
+        instance.getAccounts().catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
 
@@ -3299,9 +3538,1658 @@ describe("Robinhood", () => {
           done();
         });
 
-        instance.getAccounts();
+        instance.getAccounts().catch(() => null);
         process.nextTick(() => clock.tick(1000 * 60 * 6)); // 5 minutes
       });
     });
   });
+
+  describe("#resolveSymbol", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(() => {
+      get = sinon.stub();
+      get
+        .withArgs({ uri: "http://foo.bar/instruments/baz/" })
+        .resolves({ symbol: "FB", url: "http://foo.bar/instruments/baz/" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests the instrument and resolves its symbol", done => {
+      instance.resolveSymbol("http://foo.bar/instruments/baz/").then(symbol => {
+        expect(symbol).to.equal("FB");
+        done();
+      });
+    });
+
+    it("caches symbols by instrument", done => {
+      instance
+        .resolveSymbol("http://foo.bar/instruments/baz/")
+        .then(() => instance.resolveSymbol("http://foo.bar/instruments/baz/"))
+        .then(symbol => {
+          expect(symbol).to.equal("FB");
+          expect(get.callCount).to.equal(1);
+          done();
+        });
+    });
+  });
+
+  describe("#submitOrder", () => {
+    let requestDefaultsStub, instance, get, post;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FB" }
+        })
+        .resolves({ results: [{ symbol: "FB", url: "http://baz.qux" }] });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "FB" } })
+        .resolves({
+          results: [
+            {
+              symbol: "FB",
+              last_trade_price: "100.0000",
+              updated_at: "2017-09-27T16:12:48Z"
+            }
+          ]
+        });
+
+      post = sinon.stub();
+      post.resolves({
+        id: "foo",
+        instrument: "http://baz.qux",
+        side: "buy",
+        type: "market",
+        state: "queued",
+        quantity: "10.00000",
+        cumulative_quantity: "0.00000",
+        price: "105.00",
+        stop_price: null,
+        average_price: null,
+        time_in_force: "gfd",
+        executions: [],
+        created_at: "2017-06-07T06:18:31.634463Z",
+        updated_at: "2017-06-07T06:18:31.634463Z"
+      });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("prices market orders 5% away from the last trade", done => {
+      instance
+        .submitOrder({ symbol: "fb", side: "buy", quantity: 10 })
+        .then(order => {
+          expect(post.lastCall.args[0].form).to.deep.equal({
+            account: "http://foo.bar/baz",
+            instrument: "http://baz.qux",
+            time_in_force: APIOrderTimeInForce.gfd,
+            quantity: "10",
+            type: APIOrderType.market,
+            trigger: APIOrderTrigger.immediate,
+            side: "buy",
+            price: "105.00",
+            stop_price: null,
+            extended_hours: false,
+            symbol: "FB"
+          });
+          expect(order.symbol).to.equal("FB");
+          expect(order.status).to.equal("pending");
+          expect(order.price).to.equal(105);
+          done();
+        });
+    });
+
+    it("sends stop market orders without a price", done => {
+      instance
+        .submitOrder({
+          symbol: "FB",
+          side: "sell",
+          quantity: 10,
+          stopPrice: 90
+        })
+        .then(() => {
+          expect(post.lastCall.args[0].form).to.include({
+            side: "sell",
+            trigger: APIOrderTrigger.stop,
+            price: null,
+            stop_price: "90.00"
+          });
+          done();
+        });
+    });
+
+    it("rounds prices to the instrument's tick", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FB" }
+        })
+        .resolves({
+          results: [
+            { symbol: "FB", url: "http://baz.qux", min_tick_size: "0.0001" }
+          ]
+        });
+
+      instance
+        .submitOrder({
+          symbol: "FB",
+          side: "buy",
+          type: "limit",
+          quantity: 10,
+          price: 0.12345,
+          stopPrice: 0.12346
+        })
+        .then(() => {
+          expect(post.lastCall.args[0].form).to.include({
+            price: "0.1234",
+            stop_price: "0.1235"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects limit orders without a price", done => {
+      instance
+        .submitOrder({ symbol: "FB", side: "buy", type: "limit", quantity: 10 })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(OrderValidationError);
+          expect(error.field).to.equal("price");
+          expect(post.callCount).to.equal(0);
+          done();
+        });
+    });
+
+    it("rejects orders for symbols without an instrument", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "NOPE" }
+        })
+        .resolves({ results: [] });
+
+      instance
+        .submitOrder({
+          symbol: "nope",
+          side: "buy",
+          type: "limit",
+          quantity: 10,
+          price: 10
+        })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(InstrumentNotFoundError);
+          expect(error.message).to.equal("No instrument found for NOPE");
+          expect(post.callCount).to.equal(0);
+          done();
+        });
+    });
+  });
+
+  describe("#fetchOrders", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get.withArgs({ uri: API_URL + ENDPOINTS.ORDERS, qs: {} }).resolves({
+        results: [
+          {
+            id: "foo",
+            instrument: "http://baz.qux",
+            state: "partially_filled",
+            quantity: "10.00000",
+            cumulative_quantity: "4.00000",
+            executions: [
+              {
+                id: "bar",
+                price: "71.80000000",
+                quantity: "4.00000",
+                timestamp: "2017-08-08T13:31:19.517000Z"
+              }
+            ]
+          }
+        ]
+      });
+      get
+        .withArgs({ uri: "http://baz.qux" })
+        .resolves({ symbol: "FB", url: "http://baz.qux" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("resolves normalized orders with their symbol", done => {
+      instance.fetchOrders().then(orders => {
+        expect(orders.length).to.equal(1);
+        expect(orders[0]).to.include({
+          id: "foo",
+          symbol: "FB",
+          status: "partially_filled",
+          quantity: 10,
+          filledQuantity: 4
+        });
+        expect(orders[0].fills).to.deep.equal([
+          {
+            id: "bar",
+            price: 71.8,
+            quantity: 4,
+            timestamp: new Date("2017-08-08T13:31:19.517000Z")
+          }
+        ]);
+        done();
+      });
+    });
+  });
+
+  describe("#getPositions", () => {
+    let requestDefaultsStub, instance, get, post;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz", account_number: "ACCT" }]
+      });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.POSITIONS, qs: { nonzero: true } })
+        .resolves({
+          previous: null,
+          results: [
+            {
+              instrument: "http://baz.qux",
+              quantity: "10.0000",
+              average_buy_price: "22.7800",
+              shares_held_for_sells: "2.0000"
+            }
+          ],
+          next: null
+        });
+      get
+        .withArgs({ uri: "http://baz.qux" })
+        .resolves({ symbol: "FB", url: "http://baz.qux" });
+      post = sinon.stub();
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests positions and resolves their symbol", done => {
+      instance.getPositions({ nonzero: true }).then(body => {
+        expect(body).to.deep.equal({
+          previous: null,
+          results: [
+            {
+              instrument: "http://baz.qux",
+              quantity: "10.0000",
+              average_buy_price: "22.7800",
+              shares_held_for_sells: "2.0000",
+              symbol: "FB"
+            }
+          ],
+          next: null
+        });
+        done();
+      });
+    });
+
+    it("resolves normalized positions through #fetchPositions", done => {
+      instance.fetchPositions().then(positions => {
+        expect(positions).to.deep.equal([
+          { symbol: "FB", quantity: 10, averagePrice: 22.78 }
+        ]);
+        done();
+      });
+    });
+
+    it("authenticates and retries request on invalid token", done => {
+      let positionsStub = get.withArgs({
+        uri: API_URL + ENDPOINTS.POSITIONS,
+        qs: {}
+      });
+      positionsStub.onFirstCall().rejects({ detail: "Invalid token." });
+      positionsStub.onSecondCall().resolves({ results: [] });
+      post.resolves({ token: "bazqux" });
+      instance.setOptions({
+        credentials: { username: "foo", password: "bar" }
+      });
+
+      instance.getPositions().then(body => {
+        expect(body.results).to.deep.equal([]);
+        expect(positionsStub.callCount).to.equal(2);
+        done();
+      });
+    });
+  });
+
+  describe("#getPosition", () => {
+    let requestDefaultsStub, instance, get, positionStub;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz", account_number: "ACCT" }]
+      });
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FB" }
+        })
+        .resolves({
+          results: [{ symbol: "FB", url: "http://foo.bar/instruments/qux/" }]
+        });
+      positionStub = get
+        .withArgs({ uri: API_URL + "positions/ACCT/qux/" })
+        .resolves({
+          instrument: "http://foo.bar/instruments/qux/",
+          quantity: "10.0000"
+        });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests the position for a symbol", done => {
+      instance.getPosition("fb").then(position => {
+        expect(position).to.deep.equal({
+          instrument: "http://foo.bar/instruments/qux/",
+          quantity: "10.0000",
+          symbol: "FB"
+        });
+        done();
+      });
+    });
+
+    it("rejects when the symbol has no instrument", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "NOPE" }
+        })
+        .resolves({ results: [] });
+
+      instance.getPosition("nope").catch(error => {
+        expect(error).to.be.an.instanceof(InstrumentNotFoundError);
+        expect(error.message).to.equal("No instrument found for NOPE");
+        expect(positionStub.callCount).to.equal(0);
+        done();
+      });
+    });
+
+    it("requests the position for an instrument", done => {
+      get
+        .withArgs({ uri: "http://foo.bar/instruments/qux/" })
+        .resolves({ symbol: "FB", url: "http://foo.bar/instruments/qux/" });
+
+      instance.getPosition("http://foo.bar/instruments/qux/").then(position => {
+        expect(position.symbol).to.equal("FB");
+        expect(positionStub.callCount).to.equal(1);
+        done();
+      });
+    });
+  });
+
+  describe("#iterateOrders", () => {
+    let requestDefaultsStub, instance, get, post, secondPageStub;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get.withArgs({ uri: API_URL + ENDPOINTS.ORDERS, qs: {} }).resolves({
+        previous: null,
+        results: [{ id: "foo" }, { id: "bar" }],
+        next: "http://foo.bar/orders/?cursor=baz"
+      });
+      secondPageStub = get
+        .withArgs({ uri: "http://foo.bar/orders/?cursor=baz" })
+        .resolves({
+          previous: "http://foo.bar/orders/",
+          results: [{ id: "baz" }],
+          next: null
+        });
+      post = sinon.stub();
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("follows next cursors until the last page", async () => {
+      let ids = [];
+      for await (let order of instance.iterateOrders()) {
+        ids.push(order.id);
+      }
+
+      expect(ids).to.deep.equal(["foo", "bar", "baz"]);
+    });
+
+    it("stops requesting pages once the limit is reached", async () => {
+      let ids = [];
+      for await (let order of instance.iterateOrders({}, { limit: 2 })) {
+        ids.push(order.id);
+      }
+
+      expect(ids).to.deep.equal(["foo", "bar"]);
+      expect(secondPageStub.callCount).to.equal(0);
+    });
+
+    it("stops requesting pages when iteration ends early", async () => {
+      for await (let order of instance.iterateOrders()) {
+        if (order.id === "bar") {
+          break;
+        }
+      }
+
+      expect(secondPageStub.callCount).to.equal(0);
+    });
+
+    it("authenticates and retries pages on invalid token", async () => {
+      secondPageStub.reset();
+      secondPageStub.onFirstCall().rejects({ detail: "Invalid token." });
+      secondPageStub.onSecondCall().resolves({ results: [{ id: "baz" }] });
+      post.resolves({ token: "bazqux" });
+      instance.setOptions({
+        credentials: { username: "foo", password: "bar" }
+      });
+
+      let ids = [];
+      for await (let order of instance.iterateOrders()) {
+        ids.push(order.id);
+      }
+
+      expect(ids).to.deep.equal(["foo", "bar", "baz"]);
+      expect(secondPageStub.callCount).to.equal(2);
+    });
+  });
+
+  describe("#iterateInstruments", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(() => {
+      get = sinon.stub();
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.INSTRUMENTS, qs: { query: "fa" } })
+        .resolves({
+          results: [{ symbol: "FB" }],
+          next: "http://foo.bar/instruments/?cursor=baz"
+        });
+      get
+        .withArgs({ uri: "http://foo.bar/instruments/?cursor=baz" })
+        .resolves({ results: [{ symbol: "FAST" }], next: null });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("iterates over every instrument page", async () => {
+      let symbols = [];
+      for await (let instrument of instance.iterateInstruments({
+        query: "fa"
+      })) {
+        symbols.push(instrument.symbol);
+      }
+
+      expect(symbols).to.deep.equal(["FB", "FAST"]);
+    });
+  });
+
+  describe("#getHistoricals", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(() => {
+      get = sinon.stub();
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.HISTORICALS,
+          qs: {
+            symbols: "FB,AAPL",
+            interval: APIHistoricalsInterval.five_minute,
+            span: APIHistoricalsSpan.day,
+            bounds: APIHistoricalsBounds.extended
+          }
+        })
+        .resolves({ results: [{ symbol: "FB" }, { symbol: "AAPL" }] });
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.HISTORICALS,
+          qs: { symbols: "FB", interval: APIHistoricalsInterval.week }
+        })
+        .resolves({ results: [{ symbol: "FB" }] });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests historicals for many symbols", done => {
+      instance
+        .getHistoricals(["fb", "aapl"], {
+          interval: APIHistoricalsInterval.five_minute,
+          span: APIHistoricalsSpan.day,
+          bounds: APIHistoricalsBounds.extended
+        })
+        .then(body => {
+          expect(body).to.deep.equal({
+            results: [{ symbol: "FB" }, { symbol: "AAPL" }]
+          });
+          done();
+        });
+    });
+
+    it("only sends the parameters it's given", done => {
+      instance
+        .getHistoricals("fb", { interval: APIHistoricalsInterval.week })
+        .then(body => {
+          expect(body).to.deep.equal({ results: [{ symbol: "FB" }] });
+          done();
+        });
+    });
+
+    it("rejects promise on API error", done => {
+      get.reset();
+      get.rejects({ detail: "foobar" });
+
+      instance
+        .getHistoricals("fb", { interval: APIHistoricalsInterval.week })
+        .catch(error => {
+          expect(error).to.deep.equal({ detail: "foobar" });
+          done();
+        });
+    });
+  });
+
+  describe("#setRateLimiter", () => {
+    let clock, requestDefaultsStub, instance, get;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers();
+      get = sinon.stub().resolves({ results: [] });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      clock.restore();
+      requestDefaultsStub.restore();
+    });
+
+    it("sends requests through the rate limiter", () => {
+      instance.setRateLimiter(
+        new RateLimiter({ global: { capacity: 1, refillRate: 1 } })
+      );
+
+      instance.getQuote("FB");
+      instance.getQuote("AAPL");
+      expect(get.callCount).to.equal(1);
+
+      clock.tick(1000);
+      expect(get.callCount).to.equal(2);
+      expect(get.lastCall.args).to.deep.equal([
+        { uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "AAPL" } }
+      ]);
+    });
+
+    it("keeps the rate limiter when the token changes", done => {
+      let rateLimiter = new RateLimiter();
+      let scheduleSpy = sinon.spy(rateLimiter, "schedule");
+
+      instance.on(EVENTS.AUTHENTICATED, () => {
+        expect(scheduleSpy.callCount).to.equal(1);
+        expect(scheduleSpy.args[0][1]).to.equal(API_URL + ENDPOINTS.ACCOUNTS);
+        done();
+      });
+      instance.authenticate({ authToken: "foobar", rateLimiter });
+    });
+  });
+
+  describe("#setRetryPolicy", () => {
+    let requestDefaultsStub, instance, get, post, ordersStub, placeStub;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      ordersStub = get
+        .withArgs(sinon.match({ uri: API_URL + ENDPOINTS.ORDERS }))
+        .resolves({ results: [{ id: "foo", ref_id: "bar" }] });
+      post = sinon.stub();
+      placeStub = post.withArgs(
+        sinon.match({ uri: API_URL + ENDPOINTS.ORDERS })
+      );
+      placeStub.onFirstCall().rejects({ cause: { code: "ECONNRESET" } });
+      placeStub.onSecondCall().resolves({ id: "baz" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({
+        authToken: "foobaz",
+        retryPolicy: new RetryPolicy({ minDelay: 0 })
+      });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("retries order placement once the order isn't found", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          quantity: "1",
+          symbol: "FB",
+          price: "10.00"
+        })
+        .then(order => {
+          expect(order).to.deep.equal({ id: "baz" });
+          expect(ordersStub.callCount).to.equal(1);
+          expect(placeStub.callCount).to.equal(2);
+          expect(placeStub.args[0][0].form.ref_id).to.match(
+            /^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$/
+          );
+          expect(placeStub.args[1][0].form.ref_id).to.equal(
+            placeStub.args[0][0].form.ref_id
+          );
+          done();
+        })
+        .catch(done);
+    });
+
+    it("resolves with the order if it was placed", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          quantity: "1",
+          symbol: "FB",
+          price: "10.00",
+          ref_id: "bar"
+        })
+        .then(order => {
+          expect(order).to.deep.equal({ id: "foo", ref_id: "bar" });
+          expect(placeStub.callCount).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("retries transient failures of other requests", done => {
+      let quoteStub = get.withArgs(
+        sinon.match({ uri: API_URL + ENDPOINTS.QUOTES })
+      );
+      quoteStub.onFirstCall().rejects({ statusCode: 503 });
+      quoteStub.onSecondCall().resolves({ results: [{ foo: "bar" }] });
+
+      instance.getQuote("FB").then(body => {
+        expect(body).to.deep.equal({ results: [{ foo: "bar" }] });
+        expect(quoteStub.callCount).to.equal(2);
+        done();
+      });
+    });
+
+    it("resolves with the watchlist if it was created", done => {
+      let createStub = post.withArgs(
+        sinon.match({ uri: API_URL + ENDPOINTS.WATCHLISTS })
+      );
+      createStub.rejects({ cause: { code: "ETIMEDOUT" } });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.WATCHLISTS })
+        .resolves({ results: [{ name: "Tech" }] });
+
+      instance
+        .createWatchlist("Tech")
+        .then(watchlist => {
+          expect(watchlist).to.deep.equal({ name: "Tech" });
+          expect(createStub.callCount).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("doesn't retry POSTs to linked URIs", done => {
+      let unlinkStub = post.withArgs({ uri: "http://foo.bar/unlink/" });
+      unlinkStub.rejects({ cause: { code: "ECONNRESET" } });
+
+      instance
+        .requestURI("http://foo.bar/unlink/", "post")
+        .then(() => done(new Error("Expected requestURI to reject")))
+        .catch(error => {
+          expect(error).to.deep.equal({ cause: { code: "ECONNRESET" } });
+          expect(unlinkStub.callCount).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#setSchemaValidator", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(() => {
+      get = sinon.stub().resolves({ results: [{ symbol: "FB" }] });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("rejects responses that don't match their schema", done => {
+      instance.setSchemaValidator(new SchemaValidator());
+
+      instance.getQuote("FB").catch(error => {
+        expect(error).to.be.an.instanceof(SchemaError);
+        expect(error.schema).to.equal("APIQuoteResponse");
+        expect(error.issues.missing).to.include("results[].ask_price");
+        done();
+      });
+    });
+
+    it("collects drift without failing requests", done => {
+      let schemaValidator = new SchemaValidator({ mode: "collect" });
+      instance.setSchemaValidator(schemaValidator);
+
+      instance.getQuote("FB").then(body => {
+        expect(body).to.deep.equal({ results: [{ symbol: "FB" }] });
+        expect(
+          schemaValidator.getDriftReport().APIQuoteResponse.missing
+        ).to.include("results[].bid_price");
+        done();
+      });
+    });
+  });
+
+  describe("#setOrderValidator", () => {
+    let requestDefaultsStub, instance, get, post, instrumentStub;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      instrumentStub = get.withArgs({ uri: "http://baz.qux" }).resolves({
+        symbol: "FB",
+        tradability: "tradable",
+        tradeable: true,
+        state: "active",
+        min_tick_size: "0.0500"
+      });
+      post = sinon.stub().resolves({ id: "foo" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({
+        authToken: "foobaz",
+        orderValidator: new OrderValidator({ roundToTick: true })
+      });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("places orders once validated", done => {
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          quantity: "1",
+          symbol: "FB",
+          price: "10.02"
+        })
+        .then(order => {
+          expect(order).to.deep.equal({ id: "foo" });
+          expect(instrumentStub.callCount).to.equal(1);
+          expect(post.args[0][0].form.price).to.equal("10.0000");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects invalid orders without placing them", done => {
+      instrumentStub.resolves({
+        symbol: "FB",
+        tradability: "untradable",
+        tradeable: false,
+        state: "active"
+      });
+
+      instance
+        .placeBuyOrder({
+          instrument: "http://baz.qux",
+          quantity: "1",
+          symbol: "FB",
+          price: "10.00"
+        })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(OrderValidationError);
+          expect(error.field).to.equal("instrument");
+          expect(post.callCount).to.equal(0);
+          done();
+        });
+    });
+  });
+
+  describe("#placeMarketOrder", () => {
+    let requestDefaultsStub, instance, get, post;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FB" }
+        })
+        .resolves({
+          results: [
+            { symbol: "FB", url: "http://baz.qux", min_tick_size: "0.0500" }
+          ]
+        });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "FB" } })
+        .resolves({
+          results: [
+            {
+              symbol: "FB",
+              last_trade_price: "100.0100",
+              last_extended_hours_trade_price: "98.0000"
+            }
+          ]
+        });
+      post = sinon.stub().resolves({ id: "foo" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("prices buys above the last trade, rounded to the tick", done => {
+      instance
+        .placeMarketOrder("fb", APIOrderSide.buy, 10)
+        .then(order => {
+          expect(order).to.deep.equal({ id: "foo" });
+          expect(post.lastCall.args[0].form).to.deep.equal({
+            account: "http://foo.bar/baz",
+            instrument: "http://baz.qux",
+            time_in_force: APIOrderTimeInForce.gfd,
+            quantity: "10",
+            type: APIOrderType.market,
+            trigger: APIOrderTrigger.immediate,
+            side: APIOrderSide.buy,
+            price: "105.0000",
+            stop_price: null,
+            extended_hours: false,
+            symbol: "FB"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("prices sells below the last trade using the collar", done => {
+      instance
+        .placeMarketOrder("FB", APIOrderSide.sell, 10, { collar: 0.1 })
+        .then(() => {
+          // 100.01 * 0.9 = 90.009
+          expect(post.lastCall.args[0].form).to.include({
+            side: APIOrderSide.sell,
+            price: "90.0500"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("uses the collar it was configured with", done => {
+      instance.setOptions({ authToken: "foobaz", marketOrderCollar: 0.02 });
+
+      instance
+        .placeMarketOrder("FB", APIOrderSide.buy, 10)
+        .then(() => {
+          // 100.01 * 1.02 = 102.0102
+          expect(post.lastCall.args[0].form.price).to.equal("102.0000");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("allows a collar of zero to be configured", done => {
+      instance.setOptions({ authToken: "foobaz", marketOrderCollar: 0 });
+
+      instance
+        .placeMarketOrder("FB", APIOrderSide.buy, 10)
+        .then(() => {
+          expect(post.lastCall.args[0].form.price).to.equal("100.0000");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects symbols without an instrument", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "NOPE" }
+        })
+        .resolves({ results: [] });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "NOPE" } })
+        .resolves({ results: [null] });
+
+      instance
+        .placeMarketOrder("nope", APIOrderSide.buy, 10)
+        .then(() => done(new Error("Expected placeMarketOrder to reject")))
+        .catch(error => {
+          expect(error).to.be.an.instanceof(InstrumentNotFoundError);
+          expect(error.message).to.equal("No instrument found for NOPE");
+          expect(post.callCount).to.equal(0);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("uses the extended hours price for extended hours orders", done => {
+      instance
+        .placeMarketOrder("FB", APIOrderSide.buy, 10, {
+          extended_hours: true
+        })
+        .then(() => {
+          expect(post.lastCall.args[0].form).to.include({
+            price: "102.9000",
+            extended_hours: true
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects when there's no quote for the symbol", done => {
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.QUOTES, qs: { symbols: "FB" } })
+        .resolves({ results: [] });
+
+      instance.placeMarketOrder("FB", APIOrderSide.buy, 10).catch(error => {
+        expect(error).to.be.an.instanceof(OrderValidationError);
+        expect(error.field).to.equal("symbol");
+        expect(post.callCount).to.equal(0);
+        done();
+      });
+    });
+  });
+
+  describe("watchlists", () => {
+    let requestDefaultsStub, instance, get, post, del;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get.withArgs({ uri: API_URL + "watchlists/Default/" }).resolves({
+        previous: null,
+        results: [
+          {
+            watchlist: API_URL + "watchlists/Default/",
+            instrument: "http://baz.qux"
+          }
+        ],
+        next: "http://foo.bar/page/2"
+      });
+      get.withArgs({ uri: "http://foo.bar/page/2" }).resolves({
+        previous: null,
+        results: [
+          {
+            watchlist: API_URL + "watchlists/Default/",
+            instrument: "http://qux.quux"
+          }
+        ],
+        next: null
+      });
+      get
+        .withArgs({ uri: "http://baz.qux" })
+        .resolves({ symbol: "FB", url: "http://baz.qux" });
+      get
+        .withArgs({ uri: "http://qux.quux" })
+        .resolves({ symbol: "AAPL", url: "http://qux.quux" });
+      post = sinon.stub().resolves([]);
+      del = sinon.stub().resolves({});
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post, delete: del });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests watchlists", done => {
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.WATCHLISTS })
+        .resolves({ results: [{ name: "Default" }] });
+
+      instance
+        .getWatchlists()
+        .then(body => {
+          expect(body).to.deep.equal({ results: [{ name: "Default" }] });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("requests a watchlist and resolves its symbols", done => {
+      instance
+        .getWatchlist()
+        .then(body => {
+          expect(body.results).to.deep.equal([
+            {
+              watchlist: API_URL + "watchlists/Default/",
+              instrument: "http://baz.qux",
+              symbol: "FB"
+            }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("resolves the symbols of every page", done => {
+      instance
+        .getWatchlistSymbols("Default")
+        .then(symbols => {
+          expect(symbols).to.deep.equal(["FB", "AAPL"]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("creates and deletes watchlists", done => {
+      instance
+        .createWatchlist("Tech stocks")
+        .then(() => {
+          expect(post.lastCall.args).to.deep.equal([
+            {
+              uri: API_URL + ENDPOINTS.WATCHLISTS,
+              form: { name: "Tech stocks" }
+            }
+          ]);
+          return instance.deleteWatchlist("Tech stocks");
+        })
+        .then(() => {
+          expect(del.lastCall.args).to.deep.equal([
+            { uri: API_URL + "watchlists/Tech%20stocks/" }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("adds symbols", done => {
+      instance
+        .addToWatchlist(["fb", "aapl"], "Tech")
+        .then(() => {
+          expect(post.lastCall.args).to.deep.equal([
+            {
+              uri: API_URL + "watchlists/Tech/bulk_add/",
+              form: { symbols: "FB,AAPL" }
+            }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("removes a symbol using its instrument", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FB" }
+        })
+        .resolves({ results: [{ id: "qux", symbol: "FB" }] });
+
+      instance
+        .removeFromWatchlist("fb")
+        .then(() => {
+          expect(del.lastCall.args).to.deep.equal([
+            { uri: API_URL + "watchlists/Default/qux/" }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects removing an unknown symbol", done => {
+      get
+        .withArgs({
+          uri: API_URL + ENDPOINTS.INSTRUMENTS,
+          qs: { symbol: "FOO" }
+        })
+        .resolves({ results: [] });
+
+      instance.removeFromWatchlist("foo").catch(error => {
+        expect(error).to.be.an.instanceof(InstrumentNotFoundError);
+        expect(error.message).to.equal("No instrument found for FOO");
+        expect(del.callCount).to.equal(0);
+        done();
+      });
+    });
+  });
+
+  describe("#getDividends", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get.withArgs({ uri: API_URL + ENDPOINTS.DIVIDENDS }).resolves({
+        previous: null,
+        results: [{ instrument: "http://baz.qux", amount: "3.50" }],
+        next: "http://foo.bar/page/2"
+      });
+      get.withArgs({ uri: "http://foo.bar/page/2" }).resolves({
+        previous: null,
+        results: [{ instrument: "http://baz.qux", amount: "1.00" }],
+        next: null
+      });
+      get
+        .withArgs({ uri: "http://baz.qux" })
+        .resolves({ symbol: "FB", url: "http://baz.qux" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests dividends and resolves their symbol", done => {
+      instance
+        .getDividends()
+        .then(body => {
+          expect(body.results).to.deep.equal([
+            { instrument: "http://baz.qux", amount: "3.50", symbol: "FB" }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("iterates every page", async () => {
+      let amounts = [];
+
+      for await (let dividend of instance.iterateDividends()) {
+        expect(dividend.symbol).to.equal("FB");
+        amounts.push(dividend.amount);
+      }
+
+      expect(amounts).to.deep.equal(["3.50", "1.00"]);
+    });
+  });
+
+  describe("markets", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests markets", done => {
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.MARKETS })
+        .resolves({ results: [{ mic: "XNAS" }] });
+
+      instance
+        .getMarkets()
+        .then(body => {
+          expect(body.results).to.deep.equal([{ mic: "XNAS" }]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("requests a market by its instrument's market URL", done => {
+      get
+        .withArgs({ uri: API_URL + "markets/XNAS/" })
+        .resolves({ mic: "XNAS" });
+
+      instance
+        .getMarket("https://api.robinhood.com/markets/XNAS/")
+        .then(market => {
+          expect(market).to.deep.equal({ mic: "XNAS" });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("requests a market's hours for a day", done => {
+      get
+        .withArgs({ uri: API_URL + "markets/XNAS/hours/2018-01-31/" })
+        .resolves({ is_open: true });
+
+      instance
+        .getMarketHours("xnas", "2018-01-31")
+        .then(hours => {
+          expect(hours).to.deep.equal({ is_open: true });
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getNews", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get
+        .withArgs({ uri: API_URL + "midlands/news/FB/" })
+        .resolves({ results: [{ uuid: "foo", title: "Bar" }] });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests news for a symbol", done => {
+      instance
+        .getNews("fb")
+        .then(body => {
+          expect(body.results).to.deep.equal([{ uuid: "foo", title: "Bar" }]);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("#getMovers", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.SP500_UP })
+        .resolves({ results: [{ symbol: "FB" }] });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.SP500_DOWN })
+        .resolves({ results: [{ symbol: "GE" }] });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests the movers for a direction", done => {
+      Promise.all([instance.getMovers(), instance.getMovers("down")])
+        .then(([up, down]) => {
+          expect(up.results).to.deep.equal([{ symbol: "FB" }]);
+          expect(down.results).to.deep.equal([{ symbol: "GE" }]);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("ACH", () => {
+    let requestDefaultsStub, instance, get, post, transfer;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      post = sinon.stub().resolves({ id: "foo" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get, post });
+      transfer = {
+        ach_relationship: "http://foo.bar/relationship",
+        amount: "500.00",
+        direction: APIACHTransferDirection.deposit
+      };
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests linked bank accounts, transfers and schedules", done => {
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.ACH_RELATIONSHIPS })
+        .resolves({ results: [{ id: "relationship" }] });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.ACH_TRANSFERS })
+        .resolves({ results: [{ id: "transfer" }] });
+      get
+        .withArgs({ uri: API_URL + "ach/transfers/qux/" })
+        .resolves({ id: "qux" });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.ACH_DEPOSIT_SCHEDULES })
+        .resolves({ results: [{ id: "schedule" }] });
+
+      Promise.all([
+        instance.getACHRelationships(),
+        instance.getACHTransfers(),
+        instance.getACHTransfer("qux"),
+        instance.getDepositSchedules()
+      ])
+        .then(([relationships, transfers, single, schedules]) => {
+          expect(relationships.results[0].id).to.equal("relationship");
+          expect(transfers.results[0].id).to.equal("transfer");
+          expect(single.id).to.equal("qux");
+          expect(schedules.results[0].id).to.equal("schedule");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("refuses transfers that aren't confirmed", done => {
+      instance
+        .createACHTransfer(transfer)
+        .catch(error => {
+          expect(error).to.be.an.instanceof(ACHTransferError);
+          expect(error.message).to.equal(
+            "Not confirmed, deposit of 500.00 requires { confirm: true }"
+          );
+          return instance.createACHTransfer(transfer, { confirm: "yes" });
+        })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(ACHTransferError);
+          expect(post.callCount).to.equal(0);
+          done();
+        });
+    });
+
+    it("creates confirmed transfers", done => {
+      instance
+        .createACHTransfer(transfer, { confirm: true })
+        .then(created => {
+          expect(created).to.deep.equal({ id: "foo" });
+          expect(post.lastCall.args).to.deep.equal([
+            { uri: API_URL + ENDPOINTS.ACH_TRANSFERS, form: transfer }
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("cancels confirmed pending transfers", done => {
+      let pending = {
+        id: "qux",
+        state: APIACHTransferState.pending,
+        cancel: null
+      };
+
+      instance
+        .cancelACHTransfer(pending)
+        .catch(error => {
+          expect(error).to.be.an.instanceof(ACHTransferError);
+          return instance.cancelACHTransfer(pending, { confirm: true });
+        })
+        .then(() => {
+          expect(post.args).to.deep.equal([
+            [{ uri: API_URL + "ach/transfers/qux/cancel/" }]
+          ]);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects canceling completed transfers", done => {
+      instance
+        .cancelACHTransfer(
+          { id: "qux", state: APIACHTransferState.completed },
+          { confirm: true }
+        )
+        .catch(error => {
+          expect(error.message).to.equal(
+            "Transfer qux is completed, it can't be canceled"
+          );
+          expect(post.callCount).to.equal(0);
+          done();
+        });
+    });
+  });
+
+  describe("profile", () => {
+    let requestDefaultsStub, instance, get;
+
+    beforeEach(done => {
+      get = sinon.stub();
+      get.withArgs({ uri: API_URL + ENDPOINTS.ACCOUNTS }).resolves({
+        results: [{ url: "http://foo.bar/baz" }]
+      });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.USER })
+        .resolves({ id: "user", email: "john@example.com" });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.USER_BASIC_INFO })
+        .resolves({ tax_id_ssn: "1234" });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.USER_ADDITIONAL_INFO })
+        .resolves({ control_person: false });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.USER_EMPLOYMENT })
+        .resolves({ occupation: "Engineer" });
+      get
+        .withArgs({ uri: API_URL + ENDPOINTS.INVESTMENT_PROFILE })
+        .resolves({ risk_tolerance: "high_risk_tolerance" });
+      requestDefaultsStub = sinon
+        .stub(requestPromise, "defaults")
+        .returns({ get });
+
+      instance = new Robinhood();
+      instance.authenticate({ authToken: "foobaz" });
+      instance.once(EVENTS.AUTHENTICATED, done);
+    });
+
+    afterEach(() => {
+      requestDefaultsStub.restore();
+    });
+
+    it("requests the user and their investment profile", done => {
+      Promise.all([instance.getUser(), instance.getInvestmentProfile()])
+        .then(([user, investmentProfile]) => {
+          expect(user.id).to.equal("user");
+          expect(investmentProfile.risk_tolerance).to.equal(
+            "high_risk_tolerance"
+          );
+          done();
+        })
+        .catch(done);
+    });
+
+    it("combines every part of the profile", done => {
+      instance
+        .getProfile()
+        .then(profile => {
+          expect(profile.user.email).to.equal("john@example.com");
+          expect(profile.basicInfo.tax_id_ssn).to.equal("1234");
+          expect(profile.additionalInfo.control_person).to.equal(false);
+          expect(profile.employment.occupation).to.equal("Engineer");
+          expect(profile.investmentProfile.risk_tolerance).to.equal(
+            "high_risk_tolerance"
+          );
+          done();
+        })
+        .catch(done);
+    });
+
+    it("redacts personal data when the profile is serialized", done => {
+      instance
+        .getProfile()
+        .then(profile => {
+          let logged = JSON.parse(JSON.stringify(profile));
+
+          expect(logged.user).to.deep.equal({
+            id: "user",
+            email: "[REDACTED]"
+          });
+          expect(logged.basicInfo.tax_id_ssn).to.equal("[REDACTED]");
+          expect(logged.employment.occupation).to.equal("Engineer");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("redacts every part of the profile when it's inspected", done => {
+      instance
+        .getProfile()
+        .then(profile => {
+          expect(util.inspect(profile)).to.not.include("1234");
+          expect(util.inspect(profile.basicInfo)).to.not.include("1234");
+          expect(util.inspect(profile.user)).to.not.include("john@");
+          expect(util.inspect(profile.employment)).to.include("Engineer");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("redacts the parts requested on their own", done => {
+      Promise.all([instance.getUserBasicInfo(), instance.getUser()])
+        .then(([basicInfo, user]) => {
+          expect(util.inspect(basicInfo)).to.include("[REDACTED]");
+          expect(util.inspect(basicInfo)).to.not.include("1234");
+          expect(JSON.stringify(user)).to.not.include("john@");
+          expect(basicInfo.tax_id_ssn).to.equal("1234");
+          done();
+        })
+        .catch(done);
+    });
+  });
 });
@@ -1,14 +1,35 @@
+import crypto = require("crypto");
 import EventEmitter = require("events");
 import request = require("request");
 import requestPromise = require("request-promise-native");
 import requestPromiseErrors = require("request-promise-native/errors");
 
 import {
+  Account,
+  Broker,
+  Order,
+  OrderRequest,
+  Position,
+  Quote
+} from "./Broker";
+import {
+  APIACHRelationshipsResponse,
+  APIACHTransferCreateInterface,
+  APIACHTransferInterface,
+  APIACHTransferState,
+  APIACHTransfersResponse,
   APIAuthenticationResponse,
   APIAccountInterface,
+  APIDividendInterface,
+  APIDepositScheduleInterface,
+  APIDepositSchedulesResponse,
+  APIDividendsResponse,
   APIAccountResponse,
   APIInstrumentResponse,
+  APIQuoteInterface,
   APIInstrumentBySymbolResponse,
+  APIInstrumentsParameters,
+  APIInvestmentProfileInterface,
   APIOrderState,
   APIOrderTimeInForce,
   APIOrderType,
@@ -18,10 +39,57 @@ import {
   APIOrderResponseInterface,
   APIOrdersParameters,
   APIOrdersResponse,
+  APIPositionInterface,
+  APIPositionsParameters,
+  APIPositionsResponse,
   APIQuoteResponse,
-  APIFundamentalsResponse
+  APIFundamentalsResponse,
+  APIHistoricalsParameters,
+  APIHistoricalsResponse,
+  APIMarketHoursInterface,
+  APIMarketInterface,
+  APIMarketsResponse,
+  APIMoversDirection,
+  APIMoversResponse,
+  APINewsArticleInterface,
+  APINewsResponse,
+  APIUserAdditionalInfoInterface,
+  APIUserBasicInfoInterface,
+  APIUserEmploymentInterface,
+  APIUserInterface,
+  APIWatchlistInstrumentInterface,
+  APIWatchlistInterface,
+  APIWatchlistResponse,
+  APIWatchlistsResponse
 } from "./RobinhoodInterfaces";
-import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
+import RateLimiter from "./RateLimiter";
+import Decimal from "./Decimal";
+import OrderValidator from "./OrderValidator";
+import RetryPolicy from "./RetryPolicy";
+import {
+  ACHTransferError,
+  AuthenticationError,
+  AuthenticationMFAError,
+  InstrumentNotFoundError,
+  InvalidRobinhoodConfigurationError,
+  NoAuthTokenError,
+  OrderValidationError,
+  RobinhoodError,
+  SessionStoreError,
+  SettingAccountError,
+  UnableToAuthenticateError,
+  UnhandledError
+} from "./RobinhoodErrors";
+import SchemaValidator from "./SchemaValidator";
+import { API_URL, ENDPOINTS, getMIC } from "./RobinhoodAPIConfiguration";
+import { SessionStore } from "./SessionStore";
+import {
+  normalizeAccount,
+  normalizeOrder,
+  normalizePosition,
+  normalizeQuote
+} from "./RobinhoodNormalizers";
+import { redactByDefault } from "./UserProfile";
 
 interface RobinhoodCredentials {
   username: string;
@@ -31,6 +99,12 @@ interface RobinhoodCredentials {
 interface RobinhoodConstructorOptions {
   credentials: RobinhoodCredentials;
   authToken?: string;
+  sessionStore?: SessionStore; // Token and account are reused across restarts
+  rateLimiter?: RateLimiter; // Every request waits for its turn
+  retryPolicy?: RetryPolicy; // Transient failures are retried
+  schemaValidator?: SchemaValidator; // Responses are checked for API changes
+  orderValidator?: OrderValidator; // Orders are checked before being placed
+  marketOrderCollar?: number; // Defaults to MARKET_ORDER_COLLAR
 }
 
 interface OrderBaseInterface {
@@ -47,9 +121,16 @@ interface OrderBaseInterface {
 export interface OrderMarketInterface extends OrderBaseInterface {
   // All orders require a price property even for market orders
   // For type=market orders, set the price to 5% +/- depending if it's buy/sell
+  // placeMarketOrder does this using the latest quote
   price: string; // "23.68000000"
 }
 
+export interface MarketOrderOptions {
+  collar?: number; // 0.05 prices the order 5% away from the last trade
+  time_in_force?: APIOrderCreateInterface["time_in_force"];
+  extended_hours?: APIOrderCreateInterface["extended_hours"];
+}
+
 export interface OrderLimitInterface extends OrderBaseInterface {
   price: string; // "23.68000000"
 }
@@ -65,13 +146,64 @@ export interface OrderStopLimitInterface extends OrderLimitInterface {
   stop_price: string; // "22.00000"
 }
 
-interface RobinhoodError {
+export interface ACHTransferConfirmation {
+  // Moving money has to be asked for explicitly
+  confirm: boolean;
+}
+
+export interface PaginationOptions {
+  limit?: number; // Maximum number of results to iterate over
+}
+
+export interface PositionInterface extends APIPositionInterface {
+  symbol: string; // Resolved from the position's instrument
+}
+
+export interface PositionsResponse extends APIPositionsResponse {
+  results: PositionInterface[];
+}
+
+export interface DividendInterface extends APIDividendInterface {
+  symbol: string; // Resolved from the dividend's instrument
+}
+
+export interface DividendsResponse extends APIDividendsResponse {
+  results: DividendInterface[];
+}
+
+export interface WatchlistInstrumentInterface
+  extends APIWatchlistInstrumentInterface {
+  symbol: string; // Resolved from the instrument
+}
+
+export interface WatchlistResponse extends APIWatchlistResponse {
+  results: WatchlistInstrumentInterface[];
+}
+
+export interface ProfileInterface {
+  user: APIUserInterface;
+  basicInfo: APIUserBasicInfoInterface;
+  additionalInfo: APIUserAdditionalInfoInterface;
+  employment: APIUserEmploymentInterface;
+  investmentProfile: APIInvestmentProfileInterface;
+}
+
+interface ErrorDetails {
   type: ERRORS;
   message: string;
 }
 
 const REVALIDATE_TOKEN_TIMEOUT = 1000 * 60 * 5; // 5 minutes
 
+// How far away from the quote market orders are priced when not given a price
+const MARKET_ORDER_COLLAR = 0.05; // 5%
+
+// Tick size used for instruments that don't have one
+const DEFAULT_TICK_SIZE = "0.01";
+
+// The list the app shows
+const DEFAULT_WATCHLIST = "Default";
+
 const DEFAULT_HEADERS = {
   Accept: "*/*",
   "Accept-Encoding": "gzip, deflate",
@@ -84,11 +216,21 @@ const DEFAULT_HEADERS = {
 };
 
 export const enum ERRORS {
+  ACH_TRANSFER = "ACH_TRANSFER",
   AUTHENTICATION = "AUTHENTICATION",
   AUTHENTICATION_MFA = "AUTHENTICATION_MFA",
+  BRACKET_ORDER = "BRACKET_ORDER",
+  INSTRUMENT_NOT_FOUND = "INSTRUMENT_NOT_FOUND",
   INVALID_ROBINHOOD_CONFIGURATION = "INVALID_ROBINHOOD_CONFIGURATION",
+  MOVERS = "MOVERS",
+  NEWS = "NEWS",
   NO_AUTH_TOKEN = "NO_AUTH_TOKEN",
+  OCO_ORDER = "OCO_ORDER",
+  ORDER_TRACKING = "ORDER_TRACKING",
+  ORDER_VALIDATION = "ORDER_VALIDATION",
+  SESSION_STORE = "SESSION_STORE",
   SETTING_ACCOUNT = "SETTING_ACCOUNT",
+  TRAILING_STOP = "TRAILING_STOP",
   UNABLE_TO_AUTHENTICATE = "UNABLE_TO_AUTHENTICATE",
   UNHANDLED = "UNHANDLED"
 }
@@ -101,11 +243,16 @@ export const enum EVENTS {
   MFA_REQUESTED = "MFA_REQUESTED"
 }
 
-export default class Robinhood extends EventEmitter {
+export default class Robinhood extends EventEmitter implements Broker {
   protected account: APIAccountInterface;
   protected authToken: string;
   protected headers: { [key: string]: string };
+  protected instrumentSymbols: { [instrumentUrl: string]: string } = {};
   protected options: RobinhoodConstructorOptions;
+  protected orderValidator: OrderValidator = null;
+  protected rateLimiter: RateLimiter = null;
+  protected retryPolicy: RetryPolicy = null;
+  protected schemaValidator: SchemaValidator = null;
   protected request: request.RequestAPI<
     requestPromise.RequestPromise,
     requestPromise.RequestPromiseOptions,
@@ -123,47 +270,95 @@ export default class Robinhood extends EventEmitter {
   /**
    * Authenticates by kicking off the login process
    * and setting up user account values
+   * @return Promise resolved once the account is set up, when MFA is
+   *         requested that's after loginWithMFA succeeds
    */
-  public authenticate(options: RobinhoodConstructorOptions): void {
+  public authenticate(options: RobinhoodConstructorOptions): Promise<void> {
     if (!options) {
-      throw new Error(ERRORS.INVALID_ROBINHOOD_CONFIGURATION);
+      throw new InvalidRobinhoodConfigurationError(
+        ERRORS.INVALID_ROBINHOOD_CONFIGURATION
+      );
     }
 
     this.setOptions(options);
 
     if (this.options.authToken) {
-      this.setAuthToken(this.options.authToken);
+      return this.handled(this.setAuthToken(this.options.authToken));
+    } else if (this.options.sessionStore) {
+      return this.handled(this.loginWithSession());
     } else {
-      this.loginWithCredentials();
+      return this.handled(this.loginWithCredentials());
     }
   }
 
   public setOptions(options: RobinhoodConstructorOptions): void {
     this.options = options;
+
+    if (options.rateLimiter) {
+      this.setRateLimiter(options.rateLimiter);
+    }
+
+    if (options.retryPolicy) {
+      this.setRetryPolicy(options.retryPolicy);
+    }
+
+    if (options.schemaValidator) {
+      this.setSchemaValidator(options.schemaValidator);
+    }
+
+    if (options.orderValidator) {
+      this.setOrderValidator(options.orderValidator);
+    }
+  }
+
+  /**
+   * Sends every request through a rate limiter,
+   * it can be shared between clients to enforce a single budget
+   */
+  public setRateLimiter(rateLimiter: RateLimiter): void {
+    this.rateLimiter = rateLimiter;
+    this.updateRequestWrapper();
+  }
+
+  public setRetryPolicy(retryPolicy: RetryPolicy): void {
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * Validates every response against its schema
+   */
+  public setSchemaValidator(schemaValidator: SchemaValidator): void {
+    this.schemaValidator = schemaValidator;
+    this.updateRequestWrapper();
+  }
+
+  /**
+   * Validates orders against their instrument before placing them
+   */
+  public setOrderValidator(orderValidator: OrderValidator): void {
+    this.orderValidator = orderValidator;
   }
 
   /**
    * Logs in using Multi-Factor Authentication
    * @param  mfaCode {String}
+   * @return Promise resolved once the account is set up
    */
-  public loginWithMFA(mfaCode: string): void {
-    this.login(mfaCode).then(
-      body => {
-        if (body.token) {
-          this.setAuthToken(body.token);
-        } else {
-          this.emitError({
-            type: ERRORS.UNHANDLED,
-            message: "No token when authenticating using MFA"
-          });
-        }
-      },
-      (error: requestPromiseErrors.RequestError) => {
-        this.emitError({
-          type: ERRORS.AUTHENTICATION_MFA,
-          message: error.message
-        });
-      }
+  public loginWithMFA(mfaCode: string): Promise<void> {
+    return this.handled(
+      this.login(mfaCode).then(
+        body => {
+          if (body.token) {
+            return this.setAuthToken(body.token);
+          }
+
+          return this.fail(
+            new UnhandledError("No token when authenticating using MFA")
+          );
+        },
+        (error: requestPromiseErrors.RequestError) =>
+          this.fail(new AuthenticationMFAError(error.message, error))
+      )
     );
   }
 
@@ -173,7 +368,7 @@ export default class Robinhood extends EventEmitter {
 
   public expireToken(): Promise<Response> {
     if (!this.getAuthToken()) {
-      return Promise.reject({ message: ERRORS.NO_AUTH_TOKEN });
+      return Promise.reject(new NoAuthTokenError("No auth token to expire"));
     }
 
     return this.request
@@ -184,32 +379,56 @@ export default class Robinhood extends EventEmitter {
       .then(response => {
         this.reset();
 
-        return Promise.resolve(response);
+        return this.clearSession().then(() => response);
       });
   }
 
   public getQuote(symbols: string[] | string): Promise<APIQuoteResponse> {
     symbols = Array.isArray(symbols) ? symbols.join(",") : symbols;
+    let qs = { symbols: symbols.toUpperCase() };
 
-    return this.request
-      .get({
+    return this.withRetry("getQuote", () =>
+      this.request.get({
         uri: API_URL + ENDPOINTS.QUOTES,
-        qs: { symbols: symbols.toUpperCase() }
+        qs
       })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.getQuote(symbols))
-      );
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getQuote(symbols))
+    );
+  }
+
+  /**
+   * Gets historical bars for one or more symbols,
+   * spans default to the server's default for the interval
+   */
+  public getHistoricals(
+    symbols: string[] | string,
+    params: APIHistoricalsParameters
+  ): Promise<APIHistoricalsResponse> {
+    symbols = Array.isArray(symbols) ? symbols.join(",") : symbols;
+    let qs = Object.assign({ symbols: symbols.toUpperCase() }, params);
+
+    return this.withRetry("getHistoricals", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.HISTORICALS,
+        qs
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () =>
+        this.getHistoricals(symbols, params)
+      )
+    );
   }
 
   public getInstrument(instrumentId: string): Promise<APIInstrumentResponse> {
-    return this.request
-      .get({
+    return this.withRetry("getInstrument", () =>
+      this.request.get({
         uri:
           API_URL + ENDPOINTS.INSTRUMENT.replace(":instrumentID", instrumentId)
       })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.getInstrument(instrumentId))
-      );
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getInstrument(instrumentId))
+    );
   }
 
   public getInstrumentBySymbol(
@@ -217,16 +436,29 @@ export default class Robinhood extends EventEmitter {
   ): Promise<APIInstrumentBySymbolResponse> {
     symbol = symbol.toUpperCase();
 
-    return this.request
-      .get({
+    return this.withRetry("getInstrumentBySymbol", () =>
+      this.request.get({
         uri: API_URL + ENDPOINTS.INSTRUMENTS,
         qs: { symbol }
       })
-      .catch(error =>
-        this.invalidTokenHandler(error, () =>
-          this.getInstrumentBySymbol(symbol)
-        )
-      );
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getInstrumentBySymbol(symbol))
+    );
+  }
+
+  public getInstruments(
+    optionsArg?: APIInstrumentsParameters
+  ): Promise<APIInstrumentBySymbolResponse> {
+    let options = Object.assign({}, optionsArg);
+
+    return this.withRetry("getInstruments", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.INSTRUMENTS,
+        qs: options
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getInstruments(optionsArg))
+    );
   }
 
   public placeBuyOrder(
@@ -251,6 +483,58 @@ export default class Robinhood extends EventEmitter {
     return this.placeOrder(order as APIOrderCreateInterface);
   }
 
+  /**
+   * Places a market order priced a collar away from the latest quote,
+   * buys are priced above the last trade and sells below it
+   * @param  symbol {String}
+   * @param  side {APIOrderSide}
+   * @param  quantity {Number}
+   * @param  options {MarketOrderOptions}
+   */
+  public placeMarketOrder(
+    symbol: string,
+    side: APIOrderSide,
+    quantity: number | string,
+    options: MarketOrderOptions = {}
+  ): Promise<APIOrderResponseInterface> {
+    symbol = symbol.toUpperCase();
+
+    return Promise.all([
+      this.getInstrumentBySymbol(symbol),
+      this.getQuote(symbol)
+    ]).then(([instruments, quotes]) => {
+      let instrument = instruments.results[0];
+      let quote = quotes.results[0];
+
+      if (!instrument) {
+        throw new InstrumentNotFoundError(`No instrument found for ${symbol}`);
+      }
+
+      if (!quote) {
+        throw new OrderValidationError(
+          `No quote found for ${symbol}`,
+          "symbol"
+        );
+      }
+
+      this.instrumentSymbols[instrument.url] = instrument.symbol;
+
+      let order: OrderMarketInterface = {
+        instrument: instrument.url,
+        symbol,
+        quantity: String(quantity),
+        type: APIOrderType.market,
+        time_in_force: options.time_in_force,
+        extended_hours: options.extended_hours,
+        price: this.getCollarPrice(quote, instrument, side, options)
+      };
+
+      return side === APIOrderSide.buy
+        ? this.placeBuyOrder(order)
+        : this.placeSellOrder(order);
+    });
+  }
+
   public getOrders(
     optionsArg?: APIOrdersParameters
   ): Promise<APIOrdersResponse> {
@@ -261,24 +545,24 @@ export default class Robinhood extends EventEmitter {
       delete options.updated_at;
     }
 
-    return this.request
-      .get({
+    return this.withRetry("getOrders", () =>
+      this.request.get({
         uri: API_URL + ENDPOINTS.ORDERS,
         qs: options
       })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.getOrders(optionsArg))
-      );
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getOrders(optionsArg))
+    );
   }
 
   public getOrder(orderId): Promise<APIOrderResponseInterface> {
-    return this.request
-      .get({
+    return this.withRetry("getOrder", () =>
+      this.request.get({
         uri: API_URL + ENDPOINTS.ORDER.replace(":orderID", orderId)
       })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.getOrder(orderId))
-      );
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getOrder(orderId))
+    );
   }
 
   public cancelOrder(order: APIOrderResponseInterface): Promise<{}> {
@@ -300,37 +584,746 @@ export default class Robinhood extends EventEmitter {
       uri = API_URL + ENDPOINTS.CANCEL_ORDER.replace(":orderID", order.id);
     }
 
-    return this.request
-      .post({ uri })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.cancelOrder(order))
-      );
+    return this.withRetry("cancelOrder", () =>
+      this.request.post({ uri })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.cancelOrder(order))
+    );
   }
 
   public getAccounts(): Promise<APIAccountResponse> {
-    return this.request
-      .get({ uri: API_URL + ENDPOINTS.ACCOUNTS })
+    return this.withRetry("getAccounts", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.ACCOUNTS })
+    ).catch(error => this.invalidTokenHandler(error, () => this.getAccounts()));
+  }
+
+  /**
+   * User data is redacted when it's logged or serialized,
+   * its fields can still be read directly
+   */
+  public getUser(): Promise<APIUserInterface> {
+    return this.withRetry("getUser", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.USER })
+    )
+      .catch(error => this.invalidTokenHandler(error, () => this.getUser()))
+      .then(redactByDefault);
+  }
+
+  public getUserBasicInfo(): Promise<APIUserBasicInfoInterface> {
+    return this.withRetry("getUserBasicInfo", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.USER_BASIC_INFO })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getUserBasicInfo())
+      )
+      .then(redactByDefault);
+  }
+
+  public getUserAdditionalInfo(): Promise<APIUserAdditionalInfoInterface> {
+    return this.withRetry("getUserAdditionalInfo", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.USER_ADDITIONAL_INFO })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getUserAdditionalInfo())
+      )
+      .then(redactByDefault);
+  }
+
+  public getUserEmployment(): Promise<APIUserEmploymentInterface> {
+    return this.withRetry("getUserEmployment", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.USER_EMPLOYMENT })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getUserEmployment())
+      )
+      .then(redactByDefault);
+  }
+
+  /**
+   * Gets the risk tolerance, experience and objectives the user reported,
+   * redacted like the user
+   */
+  public getInvestmentProfile(): Promise<APIInvestmentProfileInterface> {
+    return this.withRetry("getInvestmentProfile", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.INVESTMENT_PROFILE })
+    )
       .catch(error =>
-        this.invalidTokenHandler(error, () => this.getAccounts())
+        this.invalidTokenHandler(error, () => this.getInvestmentProfile())
+      )
+      .then(redactByDefault);
+  }
+
+  /**
+   * Gets the user along with their basic info, additional info, employment
+   * and investment profile. Personal data is redacted when the profile or
+   * any of its parts is logged or serialized, its fields can still be read
+   * directly.
+   */
+  public getProfile(): Promise<ProfileInterface> {
+    return Promise.all([
+      this.getUser(),
+      this.getUserBasicInfo(),
+      this.getUserAdditionalInfo(),
+      this.getUserEmployment(),
+      this.getInvestmentProfile()
+    ]).then(
+      ([user, basicInfo, additionalInfo, employment, investmentProfile]) =>
+        redactByDefault({
+          user,
+          basicInfo,
+          additionalInfo,
+          employment,
+          investmentProfile
+        })
+    );
+  }
+
+  public getPositions(
+    optionsArg?: APIPositionsParameters
+  ): Promise<PositionsResponse> {
+    let options = Object.assign({}, optionsArg);
+
+    return this.withRetry("getPositions", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.POSITIONS,
+        qs: options
+      })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getPositions(optionsArg))
+      )
+      .then((body: APIPositionsResponse) =>
+        Promise.all(
+          body.results.map(position => this.resolvePositionSymbol(position))
+        ).then(results => Object.assign({}, body, { results }))
       );
   }
 
+  /**
+   * Gets the position for an instrument
+   * @param  symbolOrInstrument {String} Symbol or instrument URL
+   */
+  public getPosition(symbolOrInstrument: string): Promise<PositionInterface> {
+    let instrumentUrl = /^https?:\/\//.test(symbolOrInstrument)
+      ? Promise.resolve(symbolOrInstrument)
+      : this.getInstrumentBySymbol(symbolOrInstrument).then(body => {
+          let instrument = body.results[0];
+
+          if (!instrument) {
+            throw new InstrumentNotFoundError(
+              `No instrument found for ${symbolOrInstrument.toUpperCase()}`
+            );
+          }
+
+          this.instrumentSymbols[instrument.url] = instrument.symbol;
+
+          return instrument.url;
+        });
+
+    return instrumentUrl.then(url => {
+      let instrumentId = url
+        .split("/")
+        .filter(part => part)
+        .pop();
+
+      return this.withRetry("getPosition", () =>
+        this.request.get({
+          uri:
+            API_URL +
+            ENDPOINTS.POSITION
+              .replace(":accountNumber", this.account.account_number)
+              .replace(":instrumentID", instrumentId)
+        })
+      )
+        .catch(error =>
+          this.invalidTokenHandler(error, () =>
+            this.getPosition(symbolOrInstrument)
+          )
+        )
+        .then(position => this.resolvePositionSymbol(position));
+    });
+  }
+
   public getFundamentals(symbol: string): Promise<APIFundamentalsResponse> {
     symbol = symbol.toUpperCase();
 
+    return this.withRetry("getFundamentals", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.FUNDAMENTALS.replace(":symbol", symbol)
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getFundamentals(symbol))
+    );
+  }
+
+  public getMarkets(): Promise<APIMarketsResponse> {
+    return this.withRetry("getMarkets", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.MARKETS })
+    ).catch(error => this.invalidTokenHandler(error, () => this.getMarkets()));
+  }
+
+  /**
+   * @param  market {String} MIC such as "XNAS" or the market URL
+   *         instruments reference
+   */
+  public getMarket(market: string): Promise<APIMarketInterface> {
+    return this.withRetry("getMarket", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.MARKET.replace(":mic", getMIC(market))
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getMarket(market))
+    );
+  }
+
+  /**
+   * Gets a market's hours, days it's closed have null times
+   * @param  market {String} MIC such as "XNAS" or the market URL
+   * @param  date {String} "2018-01-31"
+   */
+  public getMarketHours(
+    market: string,
+    date: string
+  ): Promise<APIMarketHoursInterface> {
+    return this.withRetry("getMarketHours", () =>
+      this.request.get({
+        uri:
+          API_URL +
+          ENDPOINTS.MARKET_HOURS
+            .replace(":mic", getMIC(market))
+            .replace(":date", date)
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getMarketHours(market, date))
+    );
+  }
+
+  /**
+   * Gets the bank accounts linked to the account
+   */
+  public getACHRelationships(): Promise<APIACHRelationshipsResponse> {
+    return this.withRetry("getACHRelationships", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.ACH_RELATIONSHIPS })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getACHRelationships())
+    );
+  }
+
+  /**
+   * Gets the first page of deposits and withdrawals, newest first
+   */
+  public getACHTransfers(): Promise<APIACHTransfersResponse> {
+    return this.withRetry("getACHTransfers", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.ACH_TRANSFERS })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getACHTransfers())
+    );
+  }
+
+  public getACHTransfer(transferId: string): Promise<APIACHTransferInterface> {
+    return this.withRetry("getACHTransfer", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.ACH_TRANSFER.replace(":transferID", transferId)
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getACHTransfer(transferId))
+    );
+  }
+
+  /**
+   * Deposits to or withdraws from a linked bank account
+   * @param  transfer {APIACHTransferCreateInterface}
+   * @param  options {ACHTransferConfirmation} `confirm` has to be true
+   */
+  public createACHTransfer(
+    transfer: APIACHTransferCreateInterface,
+    options?: ACHTransferConfirmation
+  ): Promise<APIACHTransferInterface> {
+    if (!options || options.confirm !== true) {
+      return Promise.reject(
+        new ACHTransferError(
+          `Not confirmed, ${transfer.direction} of ${transfer.amount} ` +
+            "requires { confirm: true }"
+        )
+      );
+    }
+
+    // Not retried, there's no way to tell if a failed request moved money
     return this.request
-      .get({ uri: API_URL + ENDPOINTS.FUNDAMENTALS.replace(":symbol", symbol) })
+      .post({
+        uri: API_URL + ENDPOINTS.ACH_TRANSFERS,
+        form: {
+          ach_relationship: transfer.ach_relationship,
+          amount: transfer.amount,
+          direction: transfer.direction
+        }
+      })
       .catch(error =>
-        this.invalidTokenHandler(error, () => this.getFundamentals(symbol))
+        this.invalidTokenHandler(error, () =>
+          this.createACHTransfer(transfer, options)
+        )
       );
   }
 
+  /**
+   * Cancels a transfer that hasn't been sent to the bank yet
+   * @param  transfer {APIACHTransferInterface}
+   * @param  options {ACHTransferConfirmation} `confirm` has to be true
+   */
+  public cancelACHTransfer(
+    transfer: APIACHTransferInterface,
+    options?: ACHTransferConfirmation
+  ): Promise<{}> {
+    if (!options || options.confirm !== true) {
+      return Promise.reject(
+        new ACHTransferError(
+          `Not confirmed, canceling transfer ${transfer.id} ` +
+            "requires { confirm: true }"
+        )
+      );
+    }
+
+    if (
+      transfer.state !== APIACHTransferState.requested &&
+      transfer.state !== APIACHTransferState.pending
+    ) {
+      return Promise.reject(
+        new ACHTransferError(
+          `Transfer ${transfer.id} is ${transfer.state}, it can't be canceled`
+        )
+      );
+    }
+
+    let uri =
+      transfer.cancel ||
+      API_URL +
+        ENDPOINTS.ACH_CANCEL_TRANSFER.replace(":transferID", transfer.id);
+
+    return this.withRetry("cancelACHTransfer", () =>
+      this.request.post({ uri })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () =>
+        this.cancelACHTransfer(transfer, options)
+      )
+    );
+  }
+
+  /**
+   * Gets the recurring deposits
+   */
+  public getDepositSchedules(): Promise<APIDepositSchedulesResponse> {
+    return this.withRetry("getDepositSchedules", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.ACH_DEPOSIT_SCHEDULES })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getDepositSchedules())
+    );
+  }
+
+  /**
+   * Gets the first page of dividends and resolves their symbol
+   */
+  public getDividends(): Promise<DividendsResponse> {
+    return this.withRetry("getDividends", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.DIVIDENDS })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getDividends())
+      )
+      .then((body: APIDividendsResponse) =>
+        Promise.all(
+          body.results.map(dividend => this.resolveDividendSymbol(dividend))
+        ).then(results => Object.assign({}, body, { results }))
+      );
+  }
+
+  /**
+   * Gets the S&P 500 stocks moving the most today
+   * @param  direction {String} "up" for gainers, "down" for losers
+   */
+  public getMovers(
+    direction: APIMoversDirection = "up"
+  ): Promise<APIMoversResponse> {
+    let endpoint =
+      direction === "down" ? ENDPOINTS.SP500_DOWN : ENDPOINTS.SP500_UP;
+
+    return this.withRetry("getMovers", () =>
+      this.request.get({ uri: API_URL + endpoint })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getMovers(direction))
+    );
+  }
+
+  /**
+   * Gets the latest news articles about a symbol
+   * @param  symbol {String}
+   */
+  public getNews(symbol: string): Promise<APINewsResponse> {
+    symbol = symbol.toUpperCase();
+
+    return this.withRetry("getNews", () =>
+      this.request.get({
+        uri: API_URL + ENDPOINTS.NEWS.replace(":symbol", symbol)
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getNews(symbol))
+    );
+  }
+
+  public getWatchlists(): Promise<APIWatchlistsResponse> {
+    return this.withRetry("getWatchlists", () =>
+      this.request.get({ uri: API_URL + ENDPOINTS.WATCHLISTS })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.getWatchlists())
+    );
+  }
+
+  /**
+   * Gets the first page of a watchlist's instruments and resolves their symbol
+   * @param  name {String} Defaults to the list the app shows
+   */
+  public getWatchlist(
+    name: string = DEFAULT_WATCHLIST
+  ): Promise<WatchlistResponse> {
+    return this.withRetry("getWatchlist", () =>
+      this.request.get({ uri: this.getWatchlistURI(ENDPOINTS.WATCHLIST, name) })
+    )
+      .catch(error =>
+        this.invalidTokenHandler(error, () => this.getWatchlist(name))
+      )
+      .then((body: APIWatchlistResponse) =>
+        Promise.all(
+          body.results.map(item => this.resolveWatchlistSymbol(item))
+        ).then(results => Object.assign({}, body, { results }))
+      );
+  }
+
+  /**
+   * Symbols of every instrument in a watchlist
+   * @param  name {String} Defaults to the list the app shows
+   */
+  public async getWatchlistSymbols(
+    name: string = DEFAULT_WATCHLIST
+  ): Promise<string[]> {
+    let symbols = [];
+
+    for await (let item of this.iterateWatchlist(name)) {
+      symbols.push(item.symbol);
+    }
+
+    return symbols;
+  }
+
+  public createWatchlist(name: string): Promise<APIWatchlistInterface> {
+    return this.withRetry(
+      "createWatchlist",
+      () =>
+        this.request.post({
+          uri: API_URL + ENDPOINTS.WATCHLISTS,
+          form: { name }
+        }),
+      // Created before the request failed
+      () =>
+        this.getWatchlists().then(
+          body =>
+            body.results.find(watchlist => watchlist.name === name) || null
+        )
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.createWatchlist(name))
+    );
+  }
+
+  public deleteWatchlist(name: string): Promise<{}> {
+    return this.withRetry("deleteWatchlist", () =>
+      this.request.delete({
+        uri: this.getWatchlistURI(ENDPOINTS.WATCHLIST, name)
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.deleteWatchlist(name))
+    );
+  }
+
+  /**
+   * Adds symbols to a watchlist, symbols already in it are ignored
+   * @param  symbols {String|Array}
+   * @param  name {String} Defaults to the list the app shows
+   * @return Promise resolved with the instruments that were added
+   */
+  public addToWatchlist(
+    symbols: string[] | string,
+    name: string = DEFAULT_WATCHLIST
+  ): Promise<APIWatchlistInstrumentInterface[]> {
+    let symbolsList = (Array.isArray(symbols) ? symbols : [symbols])
+      .map(symbol => symbol.toUpperCase())
+      .join(",");
+
+    return this.withRetry("addToWatchlist", () =>
+      this.request.post({
+        uri: this.getWatchlistURI(ENDPOINTS.WATCHLIST_BULK_ADD, name),
+        form: { symbols: symbolsList }
+      })
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.addToWatchlist(symbols, name))
+    );
+  }
+
+  /**
+   * @param  symbol {String}
+   * @param  name {String} Defaults to the list the app shows
+   */
+  public removeFromWatchlist(
+    symbol: string,
+    name: string = DEFAULT_WATCHLIST
+  ): Promise<{}> {
+    return this.getInstrumentBySymbol(symbol).then(body => {
+      let instrument = body.results[0];
+
+      if (!instrument) {
+        throw new InstrumentNotFoundError(
+          `No instrument found for ${symbol.toUpperCase()}`
+        );
+      }
+
+      return this.withRetry("removeFromWatchlist", () =>
+        this.request.delete({
+          uri: this.getWatchlistURI(
+            ENDPOINTS.WATCHLIST_INSTRUMENT,
+            name
+          ).replace(":instrumentID", instrument.id)
+        })
+      ).catch(error =>
+        this.invalidTokenHandler(error, () =>
+          this.removeFromWatchlist(symbol, name)
+        )
+      );
+    });
+  }
+
+  /**
+   * Requests a URI the API links to, POSTs aren't retried since there's no
+   * way to tell whether one that failed took effect
+   * @param  uri {String}
+   * @param  method {String} "get" or "post"
+   */
   public requestURI(uri, method: "get" | "post" = "get"): Promise<any> {
-    return this.request[method]({ uri }).catch(error =>
-      this.invalidTokenHandler(error, () => this.requestURI(uri))
+    let request = () => this.request[method]({ uri });
+
+    return (method === "post"
+      ? request()
+      : this.withRetry("requestURI", request)
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.requestURI(uri, method))
+    );
+  }
+
+  public iterateOrders(
+    params?: APIOrdersParameters,
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIOrderResponseInterface> {
+    return this.paginate(() => this.getOrders(params), options);
+  }
+
+  public iterateInstruments(
+    params?: APIInstrumentsParameters,
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIInstrumentResponse> {
+    return this.paginate(() => this.getInstruments(params), options);
+  }
+
+  public iterateAccounts(
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIAccountInterface> {
+    return this.paginate(() => this.getAccounts(), options);
+  }
+
+  public async *iteratePositions(
+    params?: APIPositionsParameters,
+    options?: PaginationOptions
+  ): AsyncIterableIterator<PositionInterface> {
+    let positions = this.paginate<APIPositionInterface>(
+      () => this.getPositions(params),
+      options
+    );
+
+    // Pages after the first one come back without symbols
+    for await (let position of positions) {
+      yield await this.resolvePositionSymbol(position);
+    }
+  }
+
+  public iterateNews(
+    symbol: string,
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APINewsArticleInterface> {
+    return this.paginate(() => this.getNews(symbol), options);
+  }
+
+  public iterateACHTransfers(
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIACHTransferInterface> {
+    return this.paginate(() => this.getACHTransfers(), options);
+  }
+
+  public iterateDepositSchedules(
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIDepositScheduleInterface> {
+    return this.paginate(() => this.getDepositSchedules(), options);
+  }
+
+  public iterateMarkets(
+    options?: PaginationOptions
+  ): AsyncIterableIterator<APIMarketInterface> {
+    return this.paginate(() => this.getMarkets(), options);
+  }
+
+  public async *iterateDividends(
+    options?: PaginationOptions
+  ): AsyncIterableIterator<DividendInterface> {
+    let dividends = this.paginate<APIDividendInterface>(
+      () => this.getDividends(),
+      options
+    );
+
+    // Pages after the first one come back without symbols
+    for await (let dividend of dividends) {
+      yield await this.resolveDividendSymbol(dividend);
+    }
+  }
+
+  public async *iterateWatchlist(
+    name: string = DEFAULT_WATCHLIST,
+    options?: PaginationOptions
+  ): AsyncIterableIterator<WatchlistInstrumentInterface> {
+    let items = this.paginate<APIWatchlistInstrumentInterface>(
+      () => this.getWatchlist(name),
+      options
+    );
+
+    // Pages after the first one come back without symbols
+    for await (let item of items) {
+      yield await this.resolveWatchlistSymbol(item);
+    }
+  }
+
+  /**
+   * Resolves an instrument URL to its symbol, symbols are cached
+   * since orders and positions only reference their instrument
+   * @param  instrumentUrl {String}
+   */
+  public resolveSymbol(instrumentUrl: string): Promise<string> {
+    if (this.instrumentSymbols[instrumentUrl]) {
+      return Promise.resolve(this.instrumentSymbols[instrumentUrl]);
+    }
+
+    return this.requestURI(
+      instrumentUrl
+    ).then((instrument: APIInstrumentResponse) => {
+      this.instrumentSymbols[instrumentUrl] = instrument.symbol;
+
+      return instrument.symbol;
+    });
+  }
+
+  /******************
+   * Broker Methods *
+   ******************/
+
+  public fetchQuote(symbol: string): Promise<Quote> {
+    return this.getQuote(symbol).then(body => normalizeQuote(body.results[0]));
+  }
+
+  public submitOrder(order: OrderRequest): Promise<Order> {
+    let symbol = order.symbol.toUpperCase();
+    let price = order.price;
+
+    if (order.type === "limit" && !price) {
+      return Promise.reject(
+        new OrderValidationError("Limit orders require a price", "price")
+      );
+    }
+
+    // All orders require a price property even for market orders
+    if (order.type !== "limit" && !price && !order.stopPrice) {
+      return this.placeMarketOrder(
+        symbol,
+        order.side as APIOrderSide,
+        order.quantity,
+        {
+          time_in_force: order.timeInForce as APIOrderTimeInForce,
+          extended_hours: order.extendedHours
+        }
+      ).then(body => normalizeOrder(body, symbol));
+    }
+
+    return this.getInstrumentBySymbol(symbol)
+      .then(instruments => {
+        let instrument = instruments.results[0];
+
+        if (!instrument) {
+          throw new InstrumentNotFoundError(
+            `No instrument found for ${symbol}`
+          );
+        }
+
+        this.instrumentSymbols[instrument.url] = instrument.symbol;
+
+        // Limit prices round to the tick in the order's favor
+        let tick = instrument.min_tick_size || DEFAULT_TICK_SIZE;
+        let isBuy = order.side === "buy";
+        let apiOrder: OrderStopLimitInterface = {
+          instrument: instrument.url,
+          symbol,
+          quantity: String(order.quantity),
+          type: (order.type || APIOrderType.market) as APIOrderType,
+          trigger: order.stopPrice
+            ? APIOrderTrigger.stop
+            : APIOrderTrigger.immediate,
+          time_in_force: order.timeInForce as APIOrderTimeInForce,
+          // Stop market orders get their price once they're triggered
+          price:
+            order.stopPrice && order.type !== "limit"
+              ? null
+              : new Decimal(price)
+                  .roundToTick(tick, isBuy ? "floor" : "ceil")
+                  .toString(),
+          stop_price: order.stopPrice
+            ? new Decimal(order.stopPrice).roundToTick(tick).toString()
+            : null,
+          extended_hours: order.extendedHours
+        };
+
+        return isBuy
+          ? this.placeBuyOrder(apiOrder)
+          : this.placeSellOrder(apiOrder);
+      })
+      .then(body => normalizeOrder(body, symbol));
+  }
+
+  public fetchOrders(): Promise<Order[]> {
+    return this.getOrders().then(body =>
+      Promise.all(body.results.map(order => this.normalizeOrder(order)))
+    );
+  }
+
+  public fetchOrder(orderId: string): Promise<Order> {
+    return this.getOrder(orderId).then(order => this.normalizeOrder(order));
+  }
+
+  public requestCancel(orderId: string): Promise<Order> {
+    return this.getOrder(orderId)
+      .then(order => this.cancelOrder(order))
+      .then(() => this.fetchOrder(orderId));
+  }
+
+  public fetchPositions(): Promise<Position[]> {
+    return this.getPositions({ nonzero: true }).then(body =>
+      body.results.map(position => normalizePosition(position, position.symbol))
     );
   }
 
+  public fetchAccount(): Promise<Account> {
+    return this.getAccounts().then(body => normalizeAccount(body.results[0]));
+  }
+
   /*******************
    * Private Methods *
    *******************/
@@ -339,7 +1332,12 @@ export default class Robinhood extends EventEmitter {
    * Sets the authentication token and sets up user account as well
    * @param authToken {String}
    */
-  protected setAuthToken(authToken): void {
+  protected setAuthToken(authToken): Promise<void> {
+    this.useAuthToken(authToken);
+    return this.setAccount();
+  }
+
+  protected useAuthToken(authToken): void {
     this.reset();
     this.authToken = authToken;
     this.headers = Object.assign(
@@ -347,31 +1345,28 @@ export default class Robinhood extends EventEmitter {
       this.headers
     );
     this.updateRequestWrapper();
-    this.setAccount();
   }
 
   /**
    * Requests and stores account in memory
    * This account is necessary for most requests to the Robinhood API
    */
-  protected setAccount(): void {
-    this.getAccounts().then(
+  protected setAccount(): Promise<void> {
+    return this.getAccounts().then(
       body => {
         this.account = body.results[0];
+        this.saveSession();
         this.emit(EVENTS.ACCOUNT_SETUP);
       },
-      (error: requestPromiseErrors.RequestError) => {
-        this.emitError({
-          type: ERRORS.SETTING_ACCOUNT,
-          message: error.message
-        });
-      }
+      (error: requestPromiseErrors.RequestError) =>
+        this.fail(new SettingAccountError(error.message, error))
     );
   }
 
   /**
    * Handles an invalid token response
-   * It'll attempt to login again, if unable to do so it emits an error
+   * It'll attempt to login again, if unable to do so it emits a critical error
+   * and rejects with UnableToAuthenticateError
    *
    * @param  error {any} Error from request
    * @param  onSuccess {Function} Method to be called once login is successful
@@ -384,23 +1379,33 @@ export default class Robinhood extends EventEmitter {
       let isInvalidToken = normalizedError === "invalidtoken";
 
       if (isInvalidToken) {
-        return new Promise(resolve => {
-          let timeout = setTimeout(() => {
+        return new Promise((resolve, reject) => {
+          let onAuthenticated = () => {
+            clearTimeout(timeout);
+            resolve(onSuccess());
+          };
+          let onFailure = (cause?: any) => {
+            clearTimeout(timeout);
+            this.removeListener(EVENTS.AUTHENTICATED, onAuthenticated);
+
+            let unableToAuthenticate = new UnableToAuthenticateError(
+              "Invalid token and unable to authenticate",
+              cause
+            );
             this.emitError(
               {
-                type: ERRORS.UNABLE_TO_AUTHENTICATE,
-                message: "Invalid token and unable to authenticate"
+                type: unableToAuthenticate.type,
+                message: unableToAuthenticate.message
               },
               EVENTS.CRITICAL
             );
-          }, REVALIDATE_TOKEN_TIMEOUT);
+            reject(unableToAuthenticate);
+          };
+          let timeout = setTimeout(onFailure, REVALIDATE_TOKEN_TIMEOUT);
 
           this.reset();
-          this.loginWithCredentials();
-          this.once(EVENTS.AUTHENTICATED, () => {
-            clearTimeout(timeout);
-            resolve(onSuccess());
-          });
+          this.once(EVENTS.AUTHENTICATED, onAuthenticated);
+          this.loginWithCredentials().catch(onFailure);
         });
       }
     }
@@ -409,6 +1414,67 @@ export default class Robinhood extends EventEmitter {
     return Promise.reject(error);
   }
 
+  /**
+   * Iterates over every result of a list endpoint, following `next` cursors
+   * until there are no more pages or the limit is reached.
+   * Breaking out of the iteration stops any further requests.
+   * @param  firstPage {Function} Requests the first page
+   * @param  options {PaginationOptions}
+   */
+  protected async *paginate<T>(
+    firstPage: () => Promise<{ results: T[]; next: string }>,
+    options: PaginationOptions = {}
+  ): AsyncIterableIterator<T> {
+    let count = 0;
+    let page = await firstPage();
+
+    while (page) {
+      for (let result of page.results) {
+        yield result;
+
+        if (options.limit && ++count >= options.limit) {
+          return;
+        }
+      }
+
+      page = page.next ? await this.requestURI(page.next) : null;
+    }
+  }
+
+  protected resolvePositionSymbol(
+    position: APIPositionInterface
+  ): Promise<PositionInterface> {
+    return this.resolveSymbol(position.instrument).then(symbol =>
+      Object.assign({}, position, { symbol })
+    );
+  }
+
+  protected resolveDividendSymbol(
+    dividend: APIDividendInterface
+  ): Promise<DividendInterface> {
+    return this.resolveSymbol(dividend.instrument).then(symbol =>
+      Object.assign({}, dividend, { symbol })
+    );
+  }
+
+  protected resolveWatchlistSymbol(
+    item: APIWatchlistInstrumentInterface
+  ): Promise<WatchlistInstrumentInterface> {
+    return this.resolveSymbol(item.instrument).then(symbol =>
+      Object.assign({}, item, { symbol })
+    );
+  }
+
+  protected getWatchlistURI(endpoint: string, name: string): string {
+    return API_URL + endpoint.replace(":name", encodeURIComponent(name));
+  }
+
+  protected normalizeOrder(order: APIOrderResponseInterface): Promise<Order> {
+    return this.resolveSymbol(order.instrument).then(symbol =>
+      normalizeOrder(order, symbol)
+    );
+  }
+
   protected placeOrder(
     options: APIOrderCreateInterface
   ): Promise<APIOrderResponseInterface> {
@@ -426,38 +1492,193 @@ export default class Robinhood extends EventEmitter {
       symbol: options.symbol.toUpperCase()
     };
 
-    return this.request
-      .post({
-        uri: API_URL + ENDPOINTS.ORDERS,
-        form: formData
-      })
-      .catch(error =>
-        this.invalidTokenHandler(error, () => this.placeOrder(options))
+    // Placing orders isn't idempotent, a failed placement is only retried
+    // once its reference ID confirms the order doesn't exist
+    if (this.retryPolicy) {
+      formData.ref_id = options.ref_id || this.generateRefId();
+    }
+
+    if (!this.orderValidator) {
+      return this.sendOrder(formData, options);
+    }
+
+    return this.requestURI(
+      options.instrument
+    ).then((instrument: APIInstrumentResponse) =>
+      this.sendOrder(
+        this.orderValidator.validate(formData, instrument),
+        options
+      )
+    );
+  }
+
+  /**
+   * @param  formData {APIOrderCreateInterface} Order as the API expects it
+   * @param  options {APIOrderCreateInterface} Used to place it again
+   *                                           after logging back in
+   */
+  protected sendOrder(
+    formData: APIOrderCreateInterface,
+    options: APIOrderCreateInterface
+  ): Promise<APIOrderResponseInterface> {
+    let placedAt = new Date().toISOString();
+
+    return this.withRetry(
+      "placeOrder",
+      () =>
+        this.request.post({
+          uri: API_URL + ENDPOINTS.ORDERS,
+          form: formData
+        }),
+      () =>
+        this.getOrders({ updated_at: placedAt }).then(
+          body =>
+            body.results.find(order => order.ref_id === formData.ref_id) || null
+        )
+    ).catch(error =>
+      this.invalidTokenHandler(error, () => this.placeOrder(options))
+    );
+  }
+
+  /**
+   * Prices a market order away from the last trade by the collar,
+   * rounded to the instrument's tick towards the last trade
+   */
+  protected getCollarPrice(
+    quote: APIQuoteInterface,
+    instrument: APIInstrumentResponse,
+    side: APIOrderSide,
+    options: MarketOrderOptions
+  ): string {
+    let configured = this.options && this.options.marketOrderCollar;
+    let collar =
+      options.collar != null
+        ? options.collar
+        : configured != null ? configured : MARKET_ORDER_COLLAR;
+    let lastPrice =
+      (options.extended_hours && quote.last_extended_hours_trade_price) ||
+      quote.last_trade_price;
+    let isBuy = side === APIOrderSide.buy;
+    let multiplier = isBuy
+      ? new Decimal(1).plus(collar)
+      : new Decimal(1).minus(collar);
+
+    return new Decimal(lastPrice)
+      .times(multiplier)
+      .roundToTick(
+        instrument.min_tick_size || DEFAULT_TICK_SIZE,
+        isBuy ? "floor" : "ceil"
+      )
+      .toString();
+  }
+
+  /**
+   * Makes a request through the retry policy if there is one
+   * @param  method {String} Name of the method making the request
+   * @param  request {Function} Makes the request
+   * @param  recover {Function} Resolves with a result instead of retrying
+   */
+  protected withRetry<T>(
+    method: string,
+    request: () => Promise<T>,
+    recover?: (error: any) => Promise<T | null>
+  ): Promise<T> {
+    if (!this.retryPolicy) {
+      return request();
+    }
+
+    return this.retryPolicy.run(method, request, recover);
+  }
+
+  /**
+   * Random version 4 UUID
+   */
+  protected generateRefId(): string {
+    let bytes = crypto.randomBytes(16);
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    let hex = bytes.toString("hex");
+
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20)
+    ].join("-");
+  }
+
+  /**
+   * Restores a previously saved session,
+   * falls back to logging in with credentials if there isn't one
+   */
+  protected loginWithSession(): Promise<void> {
+    return this.options.sessionStore.load().then(
+      session => {
+        if (session && session.authToken && session.account) {
+          this.useAuthToken(session.authToken);
+          this.account = session.account;
+          this.emit(EVENTS.ACCOUNT_SETUP);
+        } else {
+          return this.loginWithCredentials();
+        }
+      },
+      (error: Error) => {
+        this.emitRobinhoodError(new SessionStoreError(error.message, error));
+        return this.loginWithCredentials();
+      }
+    );
+  }
+
+  protected saveSession(): void {
+    if (!this.options || !this.options.sessionStore) {
+      return;
+    }
+
+    this.options.sessionStore
+      .save({ authToken: this.authToken, account: this.account })
+      .catch((error: Error) =>
+        this.emitRobinhoodError(new SessionStoreError(error.message, error))
+      );
+  }
+
+  protected clearSession(): Promise<void> {
+    if (!this.options || !this.options.sessionStore) {
+      return Promise.resolve();
+    }
+
+    return this.options.sessionStore
+      .clear()
+      .catch((error: Error) =>
+        this.emitRobinhoodError(new SessionStoreError(error.message, error))
       );
   }
 
-  protected loginWithCredentials(): void {
-    this.login().then(
+  protected loginWithCredentials(): Promise<void> {
+    return this.login().then(
       body => {
         if (body.token) {
-          this.setAuthToken(body.token);
+          return this.setAuthToken(body.token);
         } else if (body.mfa_required) {
+          // Settled by loginWithMFA, which can be retried with another code
+          let authenticated = new Promise<void>(resolve =>
+            this.once(EVENTS.AUTHENTICATED, () => resolve())
+          );
+
           this.emit(EVENTS.MFA_REQUESTED, {
             mfa_type: body.mfa_type
           });
-        } else {
-          this.emitError({
-            type: ERRORS.UNHANDLED,
-            message: "Authentication body response is invalid"
-          });
+
+          return authenticated;
         }
+
+        return this.fail(
+          new UnhandledError("Authentication body response is invalid")
+        );
       },
-      (error: requestPromiseErrors.RequestError) => {
-        this.emitError({
-          type: ERRORS.AUTHENTICATION,
-          message: error.message
-        });
-      }
+      (error: requestPromiseErrors.RequestError) =>
+        this.fail(new AuthenticationError(error.message, error))
     );
   }
 
@@ -485,17 +1706,47 @@ export default class Robinhood extends EventEmitter {
   }
 
   protected updateRequestWrapper(): void {
-    this.request = requestPromise.defaults({
+    let request = requestPromise.defaults({
       headers: this.headers,
       json: true,
       gzip: true
     });
+
+    if (this.schemaValidator) {
+      request = this.schemaValidator.wrap(request);
+    }
+
+    this.request = this.rateLimiter ? this.rateLimiter.wrap(request) : request;
   }
 
   protected emitError(
-    details: RobinhoodError,
+    details: ErrorDetails,
     errorType: EVENTS = EVENTS.ERROR
   ): void {
     this.emit(errorType, details);
   }
+
+  /**
+   * Emits the error for event listeners in the shape they've always had
+   */
+  protected emitRobinhoodError(error: RobinhoodError): void {
+    this.emitError({ type: error.type, message: error.message });
+  }
+
+  /**
+   * Emits the error and rejects with it
+   */
+  protected fail(error: RobinhoodError): Promise<never> {
+    this.emitRobinhoodError(error);
+    return Promise.reject(error);
+  }
+
+  /**
+   * Callers relying on events don't handle the promise,
+   * failures are already emitted so they're not left unhandled
+   */
+  protected handled<T>(promise: Promise<T>): Promise<T> {
+    promise.catch(() => null);
+    return promise;
+  }
 }
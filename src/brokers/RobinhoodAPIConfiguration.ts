@@ -8,6 +8,8 @@ export const ENDPOINTS = {
   ACH_IAV_AUTH: "ach/iav/auth/",
   ACH_RELATIONSHIPS: "ach/relationships/",
   ACH_TRANSFERS: "ach/transfers/",
+  ACH_TRANSFER: "ach/transfers/:transferID/",
+  ACH_CANCEL_TRANSFER: "ach/transfers/:transferID/cancel/",
   ACH_DEPOSIT_SCHEDULES: "ach/deposit_schedules/",
   APPLICATIONS: "applications/",
   DIVIDENDS: "dividends/",
@@ -16,6 +18,8 @@ export const ENDPOINTS = {
   INSTRUMENTS: "instruments/",
   MARGIN_UPGRADE: "margin/upgrades/",
   MARKETS: "markets/",
+  MARKET: "markets/:mic/",
+  MARKET_HOURS: "markets/:mic/hours/:date/",
   NOTIFICATIONS: "notifications/",
   NOTIFICATIONS_DEVICES: "notifications/devices/",
   ORDER: "orders/:orderID/",
@@ -23,6 +27,7 @@ export const ENDPOINTS = {
   CANCEL_ORDER: "orders/:orderID/cancel/",
   PASSWORD_RESET: "password_reset/request/",
   QUOTES: "quotes/",
+  HISTORICALS: "quotes/historicals/",
   DOCUMENT_REQUESTS: "upload/document_requests/",
   USER: "user/",
 
@@ -32,9 +37,43 @@ export const ENDPOINTS = {
   USER_INVESTMENT_PROFILE: "user/investment_profile/",
 
   WATCHLISTS: "watchlists/",
+  WATCHLIST: "watchlists/:name/",
+  WATCHLIST_BULK_ADD: "watchlists/:name/bulk_add/",
+  WATCHLIST_INSTRUMENT: "watchlists/:name/:instrumentID/",
+  POSITION: "positions/:accountNumber/:instrumentID/",
   POSITIONS: "positions/",
   FUNDAMENTALS: "fundamentals/:symbol/",
   SP500_UP: "midlands/movers/sp500/?direction=up",
   SP500_DOWN: "midlands/movers/sp500/?direction=down",
-  NEWS: "midlands/news/"
+  NEWS: "midlands/news/:symbol/"
 };
+
+// Endpoint patterns such as "orders/:orderID/" matched against request URIs
+const ENDPOINT_PATTERNS = Object.keys(ENDPOINTS).map(key => ({
+  endpoint: ENDPOINTS[key],
+  pattern: new RegExp(
+    "^" + ENDPOINTS[key].split("?")[0].replace(/:[^/]+/g, "[^/]+") + "$"
+  )
+}));
+
+/**
+ * Finds the endpoint a request URI belongs to,
+ * unknown URIs are returned as their path
+ */
+export function findEndpoint(uri: string): string {
+  let path = uri.replace(API_URL, "").split("?")[0];
+  let match = ENDPOINT_PATTERNS.find(({ pattern }) => pattern.test(path));
+
+  return match ? match.endpoint : path;
+}
+
+/**
+ * Market Identifier Code from a MIC or a market URL such as "/markets/XNAS/"
+ */
+export function getMIC(market: string): string {
+  return market
+    .split("/")
+    .filter(part => part)
+    .pop()
+    .toUpperCase();
+}
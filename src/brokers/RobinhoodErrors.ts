@@ -0,0 +1,127 @@
+import { ERRORS } from "./Robinhood";
+
+/**
+ * Base class of the errors promises reject with,
+ * `type` matches the error emitted with EVENTS.ERROR
+ */
+export class RobinhoodError extends Error {
+  public type: ERRORS;
+  public cause: any; // Error the request failed with
+  public status: number | null; // HTTP status of the failed request
+
+  constructor(type: ERRORS, message: string, cause?: any) {
+    super(message);
+
+    // Keeps instanceof working for subclasses when compiling to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.type = type;
+    this.cause = cause;
+    this.status = (cause && cause.statusCode) || null;
+  }
+}
+
+export class ACHTransferError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.ACH_TRANSFER, message, cause);
+  }
+}
+
+export class AuthenticationError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.AUTHENTICATION, message, cause);
+  }
+}
+
+export class AuthenticationMFAError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.AUTHENTICATION_MFA, message, cause);
+  }
+}
+
+export class BracketOrderError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.BRACKET_ORDER, message, cause);
+  }
+}
+
+export class InstrumentNotFoundError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.INSTRUMENT_NOT_FOUND, message, cause);
+  }
+}
+
+export class InvalidRobinhoodConfigurationError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.INVALID_ROBINHOOD_CONFIGURATION, message, cause);
+  }
+}
+
+export class MoversError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.MOVERS, message, cause);
+  }
+}
+
+export class NewsError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.NEWS, message, cause);
+  }
+}
+
+export class NoAuthTokenError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.NO_AUTH_TOKEN, message, cause);
+  }
+}
+
+export class OCOOrderError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.OCO_ORDER, message, cause);
+  }
+}
+
+export class OrderTrackingError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.ORDER_TRACKING, message, cause);
+  }
+}
+
+export class OrderValidationError extends RobinhoodError {
+  public field: string; // Order field that failed validation, e.g. "price"
+
+  constructor(message: string, field: string, cause?: any) {
+    super(ERRORS.ORDER_VALIDATION, message, cause);
+    this.field = field;
+  }
+}
+
+export class SessionStoreError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.SESSION_STORE, message, cause);
+  }
+}
+
+export class SettingAccountError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.SETTING_ACCOUNT, message, cause);
+  }
+}
+
+export class TrailingStopError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.TRAILING_STOP, message, cause);
+  }
+}
+
+export class UnableToAuthenticateError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.UNABLE_TO_AUTHENTICATE, message, cause);
+  }
+}
+
+export class UnhandledError extends RobinhoodError {
+  constructor(message: string, cause?: any) {
+    super(ERRORS.UNHANDLED, message, cause);
+  }
+}
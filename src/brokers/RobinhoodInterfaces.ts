@@ -26,6 +26,60 @@ export interface APIQuoteResponse {
   results: APIQuoteInterface[];
 }
 
+export enum APIHistoricalsInterval {
+  five_minute = "5minute",
+  ten_minute = "10minute",
+  day = "day",
+  week = "week"
+}
+
+export enum APIHistoricalsSpan {
+  day = "day",
+  week = "week",
+  year = "year",
+  five_year = "5year",
+  all = "all"
+}
+
+export enum APIHistoricalsBounds {
+  regular = "regular",
+  extended = "extended" // Includes pre and after market
+}
+
+export interface APIHistoricalsParameters {
+  interval: APIHistoricalsInterval;
+  span?: APIHistoricalsSpan;
+  bounds?: APIHistoricalsBounds;
+}
+
+export interface APIHistoricalInterface {
+  begins_at: string; // "2017-09-27T13:30:00Z"
+  open_price: string; // "166.4400"
+  close_price: string; // "166.2900"
+  high_price: string; // "166.8800"
+  low_price: string; // "165.9400"
+  volume: number; // 1432312
+  session: "pre" | "reg" | "post";
+  interpolated: boolean; // No trades happened during the interval
+}
+
+export interface APIHistoricalsInterface {
+  quote: string; // /quotes/FB/
+  symbol: string; // "FB"
+  interval: APIHistoricalsInterval; // "5minute"
+  span: APIHistoricalsSpan; // "day"
+  bounds: APIHistoricalsBounds; // "regular"
+  previous_close_price: string; // "164.2100"
+  open_price: string; // "165.1000"
+  open_time: string; // "2017-09-27T13:30:00Z"
+  instrument: string; // /instruments/ebab2398-028d-4939-9f1d-13bf38f81c50/
+  historicals: APIHistoricalInterface[];
+}
+
+export interface APIHistoricalsResponse {
+  results: APIHistoricalsInterface[];
+}
+
 export const enum InstrumentTypes {
   stock = "stock",
   adr = "adr",
@@ -55,6 +109,11 @@ export interface APIInstrumentResponse {
   simple_name: string | null; // 'Microsoft'
 }
 
+export interface APIInstrumentsParameters {
+  query?: string; // Searches by symbol and name
+  symbol?: string;
+}
+
 export interface APIInstrumentBySymbolResponse {
   previous: string;
   results: Array<APIInstrumentResponse>;
@@ -216,12 +275,13 @@ interface APIOrderBaseInterface {
 export interface APIOrderCreateInterface extends APIOrderBaseInterface {
   symbol: string; // FB
   client_id?: string; // Only for OAuth applications
+  ref_id?: string; // Client generated UUID the order can be looked up by
 }
 
 // This is the response from the API for each order
 export interface APIOrderResponseInterface extends APIOrderBaseInterface {
   updated_at: string; // "2017-06-07T13:32:50.333096Z"
-  ref_id: number; // null
+  ref_id: string | null; // "6b0b4b35-8ab1-4b50-9c87-d7d5e4ea1a87"
   fees: string; // "0.00"
   cancel: string; // /cancel/foo-bar
   id: string; // "FFFFF-a6e3-46ee-CCCC-1821780005ab"
@@ -241,3 +301,334 @@ export interface APIOrdersResponse {
   results: Array<APIOrderResponseInterface>;
   next: string;
 }
+
+export interface APIPositionsParameters {
+  nonzero?: boolean; // Only positions with shares
+}
+
+export interface APIPositionInterface {
+  account: string; // /accounts/ACCT_NUMB/
+  intraday_quantity: string; // "0.0000"
+  intraday_average_buy_price: string; // "0.0000"
+  url: string; // /positions/ACCT_NUMB/50810c35-d215-4866-9758-0ada4ac79ffa/
+  created_at: string; // "2017-06-07T13:32:50.333096Z"
+  updated_at: string; // "2017-09-27T13:46:53.567591Z"
+  shares_held_for_buys: string; // "0.0000"
+  average_buy_price: string; // "22.7800"
+  instrument: string; // /instruments/50810c35-d215-4866-9758-0ada4ac79ffa/
+  shares_held_for_sells: string; // "0.0000"
+  quantity: string; // "22.0000"
+}
+
+export interface APIPositionsResponse {
+  previous: string;
+  results: APIPositionInterface[];
+  next: string;
+}
+
+export interface APIWatchlistInterface {
+  url: string; // https://api.robinhood.com/watchlists/Default/
+  user: string; // https://api.robinhood.com/user/
+  name: string; // "Default"
+}
+
+export interface APIWatchlistsResponse {
+  previous: string;
+  results: APIWatchlistInterface[];
+  next: string;
+}
+
+export interface APIWatchlistInstrumentInterface {
+  watchlist: string; // https://api.robinhood.com/watchlists/Default/
+  instrument: string; // /instruments/50810c35-d215-4866-9758-0ada4ac79ffa/
+  created_at: string; // "2017-06-07T13:32:50.333096Z"
+  url: string; // /watchlists/Default/50810c35-d215-4866-9758-0ada4ac79ffa/
+}
+
+export interface APIWatchlistResponse {
+  previous: string;
+  results: APIWatchlistInstrumentInterface[];
+  next: string;
+}
+
+export enum APIDividendState {
+  pending = "pending", // Announced, not paid yet
+  paid = "paid",
+  reinvested = "reinvested",
+  voided = "voided"
+}
+
+export interface APIDividendInterface {
+  id: string; // "1ab2c3d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d"
+  url: string; // https://api.robinhood.com/dividends/1ab2c3d4-5e6f-.../
+  account: string; // https://api.robinhood.com/accounts/ACCT_NUMB/
+  instrument: string; // /instruments/50810c35-d215-4866-9758-0ada4ac79ffa/
+  amount: string; // "3.50"
+  rate: string; // "0.3500000000" per share
+  position: string; // "10.0000" shares held on the record date
+  withholding: string; // "0.00"
+  record_date: string; // "2017-11-13"
+  payable_date: string; // "2017-11-30"
+  paid_at: string | null; // "2017-12-01T02:12:04.186526Z"
+  state: APIDividendState;
+}
+
+export interface APIDividendsResponse {
+  previous: string;
+  results: APIDividendInterface[];
+  next: string;
+}
+
+export interface APIMarketInterface {
+  url: string; // https://api.robinhood.com/markets/XNAS/
+  todays_hours: string; // /markets/XNAS/hours/2018-01-31/
+  mic: string; // "XNAS"
+  operating_mic: string; // "XNAS"
+  acronym: string; // "NASDAQ"
+  name: string; // "NASDAQ - All Markets"
+  city: string; // "New York"
+  country: string; // "US - United States of America"
+  timezone: string; // "US/Eastern"
+  website: string; // "www.nasdaq.com"
+}
+
+export interface APIMarketsResponse {
+  previous: string;
+  results: APIMarketInterface[];
+  next: string;
+}
+
+export interface APIMarketHoursInterface {
+  date: string; // "2018-01-31"
+  is_open: boolean; // False on weekends and holidays
+  opens_at: string | null; // "2018-01-31T14:30:00Z"
+  closes_at: string | null; // "2018-01-31T21:00:00Z"
+  extended_opens_at: string | null; // "2018-01-31T14:00:00Z"
+  extended_closes_at: string | null; // "2018-01-31T23:00:00Z"
+  next_open_hours: string; // /markets/XNAS/hours/2018-02-01/
+  previous_open_hours: string; // /markets/XNAS/hours/2018-01-30/
+}
+
+export interface APINewsArticleInterface {
+  uuid: string; // "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+  title: string; // "Facebook Beats Earnings Estimates"
+  source: string; // "Reuters"
+  author: string; // ""
+  url: string; // https://www.reuters.com/article/...
+  relay_url: string; // https://news.robinhood.com/a1b2c3d4.../
+  summary: string; // ""
+  preview_text: string; // "Facebook reported quarterly revenue..."
+  preview_image_url: string | null; // https://images.robinhood.com/...
+  api_source: string; // "reuters"
+  num_clicks: number; // 1204
+  published_at: string; // "2018-01-31T21:15:00Z"
+  updated_at: string; // "2018-01-31T21:20:04.186526Z"
+  instrument: string | null; // /instruments/ebab2398-028d-4939-.../
+  related_instruments: string[]; // Instrument URLs the article mentions
+}
+
+export interface APINewsResponse {
+  previous: string;
+  results: APINewsArticleInterface[];
+  next: string;
+}
+
+export type APIMoversDirection = "up" | "down";
+
+export interface APIMoverInterface {
+  instrument_url: string; // /instruments/ebab2398-028d-4939-.../
+  symbol: string; // "FB"
+  updated_at: string; // "2018-01-31T21:00:00Z"
+  price_movement: {
+    market_hours_last_movement_pct: string; // "3.52" percent change
+    market_hours_last_price: string; // "186.8900"
+  };
+  description: string; // "Facebook, Inc. operates as a social networking..."
+}
+
+export interface APIMoversResponse {
+  results: APIMoverInterface[];
+}
+
+export interface APIACHRelationshipInterface {
+  id: string; // "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+  url: string; // https://api.robinhood.com/ach/relationships/a1b2c3d4.../
+  account: string; // https://api.robinhood.com/accounts/ACCT_NUMB/
+  bank_account_holder_name: string; // "John Doe"
+  bank_account_nickname: string; // "Checking"
+  bank_account_number: string; // "1234" last four digits
+  bank_account_type: string; // "checking"
+  bank_routing_number: string; // "021000021"
+  verified: boolean;
+  state: string; // "approved"
+  withdrawal_limit: string | null; // "50000.00"
+  initial_deposit: string; // "0.00"
+  first_created_at: string; // "2017-06-07T13:32:50.333096Z"
+  created_at: string; // "2017-06-07T13:32:50.333096Z"
+  unlinked_at: string | null;
+  unlink: string; // https://api.robinhood.com/ach/relationships/a1b2.../unlink/
+}
+
+export interface APIACHRelationshipsResponse {
+  previous: string;
+  results: APIACHRelationshipInterface[];
+  next: string;
+}
+
+export enum APIACHTransferDirection {
+  deposit = "deposit",
+  withdraw = "withdraw"
+}
+
+export enum APIACHTransferState {
+  requested = "requested",
+  pending = "pending",
+  completed = "completed",
+  cancelled = "cancelled",
+  failed = "failed",
+  reversed = "reversed" // Returned by the bank after completing
+}
+
+export interface APIACHTransferInterface {
+  id: string; // "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+  url: string; // https://api.robinhood.com/ach/transfers/a1b2c3d4.../
+  ach_relationship: string; // https://api.robinhood.com/ach/relationships/...
+  amount: string; // "500.00"
+  direction: APIACHTransferDirection;
+  state: APIACHTransferState;
+  fees: string; // "0.00"
+  status_description: string; // ""
+  scheduled: boolean; // Made by a deposit schedule
+  expected_landing_date: string | null; // "2018-02-05"
+  early_access_amount: string; // "500.00"
+  cancel: string | null; // https://api.robinhood.com/ach/transfers/.../cancel/
+  created_at: string; // "2018-01-31T21:15:00.186526Z"
+  updated_at: string; // "2018-02-05T13:00:04.186526Z"
+}
+
+export interface APIACHTransfersResponse {
+  previous: string;
+  results: APIACHTransferInterface[];
+  next: string;
+}
+
+export interface APIACHTransferCreateInterface {
+  ach_relationship: string; // URL of the linked bank account
+  amount: string; // "500.00"
+  direction: APIACHTransferDirection;
+}
+
+export enum APIDepositScheduleFrequency {
+  weekly = "weekly",
+  biweekly = "biweekly",
+  monthly = "monthly",
+  quarterly = "quarterly"
+}
+
+export interface APIDepositScheduleInterface {
+  id: string; // "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+  url: string; // https://api.robinhood.com/ach/deposit_schedules/a1b2c3d4.../
+  ach_relationship: string; // https://api.robinhood.com/ach/relationships/...
+  amount: string; // "100.00"
+  frequency: APIDepositScheduleFrequency;
+  next_deposit_date: string; // "2018-02-15"
+  created_at: string; // "2017-06-07T13:32:50.333096Z"
+}
+
+export interface APIDepositSchedulesResponse {
+  previous: string;
+  results: APIDepositScheduleInterface[];
+  next: string;
+}
+
+export interface APIUserInterface {
+  id: string; // "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+  url: string; // https://api.robinhood.com/user/
+  username: string; // "johndoe"
+  first_name: string; // "John"
+  last_name: string; // "Doe"
+  email: string; // "john@example.com"
+  email_verified: boolean;
+  id_info: string; // https://api.robinhood.com/user/id/
+  basic_info: string; // https://api.robinhood.com/user/basic_info/
+  additional_info: string; // https://api.robinhood.com/user/additional_info/
+  employment: string; // https://api.robinhood.com/user/employment/
+  investment_profile: string; // https://api.robinhood.com/user/investment_.../
+  international_info: string; // https://api.robinhood.com/user/internatio.../
+  created_at: string; // "2017-06-07T13:32:50.333096Z"
+}
+
+export interface APIUserBasicInfoInterface {
+  user: string; // https://api.robinhood.com/user/
+  phone_number: string; // "5555555555"
+  address: string; // "1 Main St"
+  city: string; // "Palo Alto"
+  state: string; // "CA"
+  zipcode: string; // "94301"
+  country_of_residence: string; // "US"
+  citizenship: string; // "US"
+  date_of_birth: string; // "1980-01-31"
+  marital_status: string; // "single"
+  number_dependents: number; // 0
+  tax_id_ssn: string; // "1234" last four digits
+  updated_at: string; // "2017-06-07T13:32:50.333096Z"
+}
+
+export interface APIUserAdditionalInfoInterface {
+  user: string; // https://api.robinhood.com/user/
+  control_person: boolean;
+  control_person_security_symbol: string; // "" unless a control person
+  object_to_disclosure: boolean;
+  security_affiliated_employee: boolean;
+  security_affiliated_person: boolean;
+  security_affiliated_firm_name: string; // "" unless affiliated
+  security_affiliated_firm_relationship: string; // "NA"
+  security_affiliated_address: string; // "" unless affiliated
+  security_affiliated_requires_duplicates: boolean;
+  stock_loan_consent_status: string; // "consented"
+  sweep_consent: boolean;
+  updated_at: string; // "2017-06-07T13:32:50.333096Z"
+}
+
+export interface APIUserEmploymentInterface {
+  user: string; // https://api.robinhood.com/user/
+  employment_status: string; // "employed"
+  employer_name: string; // "Acme Inc."
+  employer_address: string; // "1 Market St"
+  employer_city: string; // "San Francisco"
+  employer_state: string; // "CA"
+  employer_zipcode: string; // "94105"
+  occupation: string; // "Engineer"
+  years_employed: number; // 3
+  updated_at: string; // "2017-06-07T13:32:50.333096Z"
+}
+
+export enum APIRiskTolerance {
+  low = "low_risk_tolerance",
+  med = "med_risk_tolerance",
+  high = "high_risk_tolerance"
+}
+
+export enum APIInvestmentExperience {
+  none = "no_investment_exp",
+  limited = "limited_investment_exp",
+  good = "good_investment_exp",
+  extensive = "extensive_investment_exp"
+}
+
+export interface APIInvestmentProfileInterface {
+  user: string; // https://api.robinhood.com/user/
+  risk_tolerance: APIRiskTolerance | null; // null until the user answers
+  investment_experience: APIInvestmentExperience | null;
+  investment_experience_collected: boolean;
+  investment_objective: string | null; // "growth_invest_obj"
+  time_horizon: string | null; // "long_time_horizon"
+  liquidity_needs: string | null; // "not_important_liq_need"
+  annual_income: string | null; // "25000_39999"
+  liquid_net_worth: string | null; // "50000_99999"
+  total_net_worth: string | null; // "100000_199999"
+  tax_bracket: string | null; // "25_pct"
+  source_of_funds: string | null; // "savings_personal_income"
+  suitability_verified: boolean;
+  updated_at: string; // "2017-06-07T13:32:50.333096Z"
+}
@@ -0,0 +1,98 @@
+import {} from "mocha";
+const { expect } = require("chai");
+
+import Decimal from "./Decimal";
+import {
+  decimalNormalizers,
+  normalizeHistoricals
+} from "./RobinhoodNormalizers";
+
+describe("RobinhoodNormalizers", () => {
+  describe("#normalizeHistoricals", () => {
+    it("converts historicals into bars", () => {
+      let bars = normalizeHistoricals({
+        symbol: "FB",
+        historicals: [
+          {
+            begins_at: "2017-09-27T13:30:00Z",
+            open_price: "166.4400",
+            close_price: "166.2900",
+            high_price: "166.8800",
+            low_price: "165.9400",
+            volume: 1432312,
+            session: "reg",
+            interpolated: false
+          }
+        ]
+      } as any);
+
+      expect(bars).to.deep.equal([
+        {
+          symbol: "FB",
+          beginsAt: new Date("2017-09-27T13:30:00Z"),
+          open: 166.44,
+          high: 166.88,
+          low: 165.94,
+          close: 166.29,
+          volume: 1432312
+        }
+      ]);
+    });
+
+    it("leaves out interpolated bars", () => {
+      let bars = normalizeHistoricals({
+        symbol: "FB",
+        historicals: [{ interpolated: true }]
+      } as any);
+
+      expect(bars).to.deep.equal([]);
+    });
+  });
+
+  describe("#decimalNormalizers", () => {
+    it("parses prices and quantities as decimals", () => {
+      let order = decimalNormalizers.order(
+        {
+          id: "foo",
+          side: "buy",
+          type: "limit",
+          state: "partially_filled",
+          quantity: "10.00000",
+          cumulative_quantity: "4.00000",
+          price: "23.68000000",
+          stop_price: null,
+          average_price: "23.67000000",
+          time_in_force: "gfd",
+          executions: [
+            {
+              id: "bar",
+              price: "23.67000000",
+              quantity: "4.00000",
+              timestamp: "2017-09-27T16:12:48Z"
+            }
+          ],
+          created_at: "2017-09-27T16:12:48Z",
+          updated_at: "2017-09-27T16:12:48Z"
+        } as any,
+        "FB"
+      );
+
+      expect(order.price).to.be.an.instanceof(Decimal);
+      expect(order.price.toString()).to.equal("23.68000000");
+      expect(order.quantity.minus(order.filledQuantity).toString()).to.equal(
+        "6.00000"
+      );
+      expect(order.stopPrice).to.equal(null);
+      expect(order.fills[0].price.equals("23.67")).to.equal(true);
+    });
+
+    it("defaults filled quantity to zero", () => {
+      let order = decimalNormalizers.order(
+        { quantity: "1", cumulative_quantity: null } as any,
+        "FB"
+      );
+
+      expect(order.filledQuantity.isZero()).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Account,
+  Bar,
+  Fill,
+  Order,
+  OrderStatus,
+  Position,
+  Quote
+} from "./Broker";
+import Decimal from "./Decimal";
+import {
+  APIAccountInterface,
+  APIHistoricalsInterface,
+  APIOrderExcutionInterface,
+  APIOrderResponseInterface,
+  APIOrderState,
+  APIPositionInterface,
+  APIQuoteInterface
+} from "./RobinhoodInterfaces";
+
+export interface Normalizers<N> {
+  quote(quote: APIQuoteInterface): Quote<N>;
+  fill(execution: APIOrderExcutionInterface): Fill<N>;
+  order(order: APIOrderResponseInterface, symbol: string): Order<N>;
+  account(account: APIAccountInterface): Account<N>;
+  position(position: APIPositionInterface, symbol: string): Position<N>;
+  historicals(historicals: APIHistoricalsInterface): Bar<N>[];
+}
+
+const ORDER_STATUSES: { [state: string]: OrderStatus } = {
+  [APIOrderState.queued]: "pending",
+  [APIOrderState.unconfirmed]: "pending",
+  [APIOrderState.confirmed]: "open",
+  [APIOrderState.partially_filled]: "partially_filled",
+  [APIOrderState.filled]: "filled",
+  [APIOrderState.rejected]: "rejected",
+  [APIOrderState.failed]: "rejected",
+  [APIOrderState.cancelled]: "canceled",
+  [APIOrderState.canceled]: "canceled"
+};
+
+function toNumber(value: string | null): number | null {
+  return value == null ? null : parseFloat(value);
+}
+
+/**
+ * Builds normalizers whose prices and quantities are parsed with `parse`
+ * @param  parse {Function} Parses the API's numeric strings, null included
+ */
+export function createNormalizers<N>(
+  parse: (value: string | null) => N | null
+): Normalizers<N> {
+  let fill = (execution: APIOrderExcutionInterface): Fill<N> => ({
+    id: execution.id,
+    price: parse(execution.price),
+    quantity: parse(execution.quantity),
+    timestamp: new Date(execution.timestamp)
+  });
+
+  return {
+    quote: quote => ({
+      symbol: quote.symbol,
+      bid: parse(quote.bid_price),
+      ask: parse(quote.ask_price),
+      last: parse(quote.last_trade_price),
+      previousClose: parse(quote.previous_close),
+      halted: quote.trading_halted,
+      updatedAt: new Date(quote.updated_at)
+    }),
+    fill,
+    order: (order, symbol) => ({
+      id: order.id,
+      symbol,
+      side: order.side,
+      type: order.type,
+      status: ORDER_STATUSES[order.state],
+      quantity: parse(order.quantity),
+      filledQuantity: parse(order.cumulative_quantity || "0"),
+      price: parse(order.price),
+      stopPrice: parse(order.stop_price),
+      averagePrice: parse(order.average_price),
+      timeInForce: order.time_in_force,
+      fills: (order.executions || []).map(fill),
+      createdAt: new Date(order.created_at),
+      updatedAt: new Date(order.updated_at)
+    }),
+    account: account => ({
+      id: account.account_number,
+      cash: parse(account.cash),
+      buyingPower: parse(account.buying_power)
+    }),
+    position: (position, symbol) => ({
+      symbol,
+      quantity: parse(position.quantity),
+      averagePrice: parse(position.average_buy_price)
+    }),
+    historicals: historicals =>
+      historicals.historicals
+        .filter(historical => !historical.interpolated)
+        .map(historical => ({
+          symbol: historicals.symbol,
+          beginsAt: new Date(historical.begins_at),
+          open: parse(historical.open_price),
+          high: parse(historical.high_price),
+          low: parse(historical.low_price),
+          close: parse(historical.close_price),
+          volume: historical.volume
+        }))
+  };
+}
+
+const numberNormalizers = createNormalizers(toNumber);
+
+/**
+ * Opt-in normalizers that keep prices and quantities exact
+ */
+export const decimalNormalizers = createNormalizers(Decimal.parse);
+
+export function normalizeQuote(quote: APIQuoteInterface): Quote {
+  return numberNormalizers.quote(quote);
+}
+
+export function normalizeFill(execution: APIOrderExcutionInterface): Fill {
+  return numberNormalizers.fill(execution);
+}
+
+/**
+ * Robinhood orders only reference their instrument,
+ * so the symbol has to be resolved by the caller
+ */
+export function normalizeOrder(
+  order: APIOrderResponseInterface,
+  symbol: string
+): Order {
+  return numberNormalizers.order(order, symbol);
+}
+
+export function normalizeAccount(account: APIAccountInterface): Account {
+  return numberNormalizers.account(account);
+}
+
+export function normalizePosition(
+  position: APIPositionInterface,
+  symbol: string
+): Position {
+  return numberNormalizers.position(position, symbol);
+}
+
+/**
+ * Flattens historicals into bars, bars with no trades are left out
+ */
+export function normalizeHistoricals(
+  historicals: APIHistoricalsInterface
+): Bar[] {
+  return numberNormalizers.historicals(historicals);
+}
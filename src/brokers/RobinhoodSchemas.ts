@@ -0,0 +1,623 @@
+import { ENDPOINTS } from "./RobinhoodAPIConfiguration";
+import { Schema } from "./SchemaValidator";
+
+// Runtime counterparts of the response interfaces in RobinhoodInterfaces,
+// keep both in sync when the API changes
+
+function list(name: string, item: Schema): Schema {
+  return {
+    name,
+    fields: {
+      previous: "string|null",
+      results: { items: item },
+      next: "string|null"
+    }
+  };
+}
+
+export const APIAuthenticationResponseSchema: Schema = {
+  name: "APIAuthenticationResponse",
+  fields: {
+    token: "string?",
+    mfa_type: "string?",
+    mfa_required: "any?"
+  }
+};
+
+export const APIQuoteInterfaceSchema: Schema = {
+  name: "APIQuoteInterface",
+  fields: {
+    ask_price: "string|null",
+    ask_size: "number",
+    bid_price: "string|null",
+    bid_size: "number",
+    last_trade_price: "string|null",
+    last_extended_hours_trade_price: "string|null",
+    previous_close: "string|null",
+    adjusted_previous_close: "string|null",
+    previous_close_date: "string|null",
+    symbol: "string",
+    trading_halted: "boolean",
+    has_traded: "boolean",
+    last_trade_price_source: "string",
+    updated_at: "string",
+    instrument: "string"
+  }
+};
+
+export const APIQuoteResponseSchema: Schema = {
+  name: "APIQuoteResponse",
+  fields: { results: { items: APIQuoteInterfaceSchema } }
+};
+
+export const APIHistoricalInterfaceSchema: Schema = {
+  name: "APIHistoricalInterface",
+  fields: {
+    begins_at: "string",
+    open_price: "string",
+    close_price: "string",
+    high_price: "string",
+    low_price: "string",
+    volume: "number",
+    session: "string",
+    interpolated: "boolean"
+  }
+};
+
+export const APIHistoricalsInterfaceSchema: Schema = {
+  name: "APIHistoricalsInterface",
+  fields: {
+    quote: "string",
+    symbol: "string",
+    interval: "string",
+    span: "string",
+    bounds: "string",
+    previous_close_price: "string|null",
+    open_price: "string|null",
+    open_time: "string|null",
+    instrument: "string",
+    historicals: { items: APIHistoricalInterfaceSchema }
+  }
+};
+
+export const APIHistoricalsResponseSchema: Schema = {
+  name: "APIHistoricalsResponse",
+  fields: { results: { items: APIHistoricalsInterfaceSchema } }
+};
+
+export const APIInstrumentResponseSchema: Schema = {
+  name: "APIInstrumentResponse",
+  fields: {
+    min_tick_size: "string|null",
+    type: "string",
+    splits: "string",
+    margin_initial_ratio: "string",
+    url: "string",
+    quote: "string",
+    tradability: "string",
+    symbol: "string",
+    bloomberg_unique: "string",
+    list_date: "string|null",
+    fundamentals: "string",
+    state: "string",
+    country: "string",
+    day_trade_ratio: "string",
+    tradeable: "boolean",
+    maintenance_ratio: "string",
+    id: "string",
+    market: "string",
+    name: "string",
+    simple_name: "string|null"
+  }
+};
+
+export const APIInstrumentBySymbolResponseSchema = list(
+  "APIInstrumentBySymbolResponse",
+  APIInstrumentResponseSchema
+);
+
+export const APIFundamentalsResponseSchema: Schema = {
+  name: "APIFundamentalsResponse",
+  fields: {
+    open: "string|null",
+    high: "string|null",
+    low: "string|null",
+    volume: "string|null",
+    average_volume_2_weeks: "string|null",
+    average_volume: "string|null",
+    high_52_weeks: "string|null",
+    dividend_yield: "string|null",
+    low_52_weeks: "string|null",
+    market_cap: "string|null",
+    pe_ratio: "string|null",
+    shares_outstanding: "string|null",
+    description: "string",
+    instrument: "string",
+    ceo: "string",
+    headquarters_city: "string",
+    headquarters_state: "string",
+    sector: "string",
+    num_employees: "number|null",
+    year_founded: "number|null"
+  }
+};
+
+export const APIAccountInterfaceSchema: Schema = {
+  name: "APIAccountInterface",
+  fields: {
+    deactivated: "boolean",
+    updated_at: "string",
+    margin_balances: {
+      name: "APIAccountInterface.margin_balances",
+      fields: {
+        day_trade_buying_power: "string",
+        start_of_day_overnight_buying_power: "string",
+        overnight_buying_power_held_for_orders: "string",
+        cash_held_for_orders: "string",
+        created_at: "string",
+        unsettled_debit: "string",
+        start_of_day_dtbp: "string",
+        day_trade_buying_power_held_for_orders: "string",
+        overnight_buying_power: "string",
+        marked_pattern_day_trader_date: "string|boolean|null",
+        cash: "string",
+        unallocated_margin_cash: "string",
+        updated_at: "string",
+        cash_available_for_withdrawal: "string",
+        margin_limit: "string",
+        outstanding_interest: "string",
+        uncleared_deposits: "string",
+        unsettled_funds: "string",
+        gold_equity_requirement: "string",
+        day_trade_ratio: "string",
+        overnight_ratio: "string"
+      }
+    },
+    portfolio: "string",
+    cash_balances: "any",
+    can_downgrade_to_cash: "string",
+    withdrawal_halted: "boolean",
+    cash_available_for_withdrawal: "string",
+    type: "string",
+    sma: "string|null",
+    sweep_enabled: "boolean",
+    deposit_halted: "boolean",
+    buying_power: "string",
+    user: "string",
+    max_ach_early_access_amount: "string",
+    instant_eligibility: {
+      name: "APIAccountInterface.instant_eligibility",
+      fields: {
+        updated_at: "string|null",
+        reason: "string",
+        reinstatement_date: "string|null",
+        reversal: "any",
+        state: "string"
+      }
+    },
+    cash_held_for_orders: "string",
+    only_position_closing_trades: "boolean",
+    url: "string",
+    positions: "string",
+    created_at: "string",
+    cash: "string",
+    sma_held_for_orders: "string|null",
+    unsettled_debit: "string",
+    account_number: "string",
+    uncleared_deposits: "string",
+    unsettled_funds: "string"
+  }
+};
+
+export const APIAccountResponseSchema = list(
+  "APIAccountResponse",
+  APIAccountInterfaceSchema
+);
+
+export const APIOrderExcutionInterfaceSchema: Schema = {
+  name: "APIOrderExcutionInterface",
+  fields: {
+    timestamp: "string",
+    price: "string",
+    settlement_date: "string",
+    id: "string",
+    quantity: "string"
+  }
+};
+
+export const APIOrderResponseInterfaceSchema: Schema = {
+  name: "APIOrderResponseInterface",
+  fields: {
+    account: "string",
+    instrument: "string",
+    time_in_force: "string",
+    quantity: "string",
+    type: "string",
+    trigger: "string",
+    side: "string",
+    price: "string|null?",
+    stop_price: "string|null?",
+    extended_hours: "boolean?",
+    override_day_trade_checks: "boolean?",
+    override_dtbp_checks: "boolean?",
+    updated_at: "string",
+    ref_id: "string|null",
+    fees: "string",
+    cancel: "string|null",
+    id: "string",
+    cumulative_quantity: "string",
+    reject_reason: "string|null",
+    state: "string",
+    last_transaction_at: "string|null",
+    executions: { items: APIOrderExcutionInterfaceSchema },
+    url: "string",
+    created_at: "string",
+    position: "string",
+    average_price: "string|null"
+  }
+};
+
+export const APIOrdersResponseSchema = list(
+  "APIOrdersResponse",
+  APIOrderResponseInterfaceSchema
+);
+
+export const APIPositionInterfaceSchema: Schema = {
+  name: "APIPositionInterface",
+  fields: {
+    account: "string",
+    intraday_quantity: "string",
+    intraday_average_buy_price: "string",
+    url: "string",
+    created_at: "string",
+    updated_at: "string",
+    shares_held_for_buys: "string",
+    average_buy_price: "string",
+    instrument: "string",
+    shares_held_for_sells: "string",
+    quantity: "string"
+  }
+};
+
+export const APIPositionsResponseSchema = list(
+  "APIPositionsResponse",
+  APIPositionInterfaceSchema
+);
+
+export const APIWatchlistInterfaceSchema: Schema = {
+  name: "APIWatchlistInterface",
+  fields: {
+    url: "string",
+    user: "string",
+    name: "string"
+  }
+};
+
+export const APIWatchlistsResponseSchema = list(
+  "APIWatchlistsResponse",
+  APIWatchlistInterfaceSchema
+);
+
+export const APIWatchlistInstrumentInterfaceSchema: Schema = {
+  name: "APIWatchlistInstrumentInterface",
+  fields: {
+    watchlist: "string",
+    instrument: "string",
+    created_at: "string",
+    url: "string"
+  }
+};
+
+export const APIWatchlistResponseSchema = list(
+  "APIWatchlistResponse",
+  APIWatchlistInstrumentInterfaceSchema
+);
+
+export const APIDividendInterfaceSchema: Schema = {
+  name: "APIDividendInterface",
+  fields: {
+    id: "string",
+    url: "string",
+    account: "string",
+    instrument: "string",
+    amount: "string",
+    rate: "string",
+    position: "string",
+    withholding: "string",
+    record_date: "string",
+    payable_date: "string",
+    paid_at: "string|null",
+    state: "string"
+  }
+};
+
+export const APIDividendsResponseSchema = list(
+  "APIDividendsResponse",
+  APIDividendInterfaceSchema
+);
+
+export const APIMarketInterfaceSchema: Schema = {
+  name: "APIMarketInterface",
+  fields: {
+    url: "string",
+    todays_hours: "string",
+    mic: "string",
+    operating_mic: "string",
+    acronym: "string",
+    name: "string",
+    city: "string",
+    country: "string",
+    timezone: "string",
+    website: "string"
+  }
+};
+
+export const APIMarketsResponseSchema = list(
+  "APIMarketsResponse",
+  APIMarketInterfaceSchema
+);
+
+export const APIMarketHoursInterfaceSchema: Schema = {
+  name: "APIMarketHoursInterface",
+  fields: {
+    date: "string",
+    is_open: "boolean",
+    opens_at: "string|null",
+    closes_at: "string|null",
+    extended_opens_at: "string|null",
+    extended_closes_at: "string|null",
+    next_open_hours: "string",
+    previous_open_hours: "string"
+  }
+};
+
+export const APINewsArticleInterfaceSchema: Schema = {
+  name: "APINewsArticleInterface",
+  fields: {
+    uuid: "string",
+    title: "string",
+    source: "string",
+    author: "string",
+    url: "string",
+    relay_url: "string",
+    summary: "string",
+    preview_text: "string",
+    preview_image_url: "string|null",
+    api_source: "string",
+    num_clicks: "number",
+    published_at: "string",
+    updated_at: "string",
+    instrument: "string|null",
+    related_instruments: { items: "string" }
+  }
+};
+
+export const APINewsResponseSchema = list(
+  "APINewsResponse",
+  APINewsArticleInterfaceSchema
+);
+
+export const APIMoverInterfaceSchema: Schema = {
+  name: "APIMoverInterface",
+  fields: {
+    instrument_url: "string",
+    symbol: "string",
+    updated_at: "string",
+    price_movement: {
+      name: "APIMoverInterface.price_movement",
+      fields: {
+        market_hours_last_movement_pct: "string",
+        market_hours_last_price: "string"
+      }
+    },
+    description: "string"
+  }
+};
+
+export const APIMoversResponseSchema: Schema = {
+  name: "APIMoversResponse",
+  fields: { results: { items: APIMoverInterfaceSchema } }
+};
+
+export const APIACHRelationshipInterfaceSchema: Schema = {
+  name: "APIACHRelationshipInterface",
+  fields: {
+    id: "string",
+    url: "string",
+    account: "string",
+    bank_account_holder_name: "string",
+    bank_account_nickname: "string",
+    bank_account_number: "string",
+    bank_account_type: "string",
+    bank_routing_number: "string",
+    verified: "boolean",
+    state: "string",
+    withdrawal_limit: "string|null",
+    initial_deposit: "string",
+    first_created_at: "string",
+    created_at: "string",
+    unlinked_at: "string|null",
+    unlink: "string"
+  }
+};
+
+export const APIACHRelationshipsResponseSchema = list(
+  "APIACHRelationshipsResponse",
+  APIACHRelationshipInterfaceSchema
+);
+
+export const APIACHTransferInterfaceSchema: Schema = {
+  name: "APIACHTransferInterface",
+  fields: {
+    id: "string",
+    url: "string",
+    ach_relationship: "string",
+    amount: "string",
+    direction: "string",
+    state: "string",
+    fees: "string",
+    status_description: "string",
+    scheduled: "boolean",
+    expected_landing_date: "string|null",
+    early_access_amount: "string",
+    cancel: "string|null",
+    created_at: "string",
+    updated_at: "string"
+  }
+};
+
+export const APIACHTransfersResponseSchema = list(
+  "APIACHTransfersResponse",
+  APIACHTransferInterfaceSchema
+);
+
+export const APIDepositScheduleInterfaceSchema: Schema = {
+  name: "APIDepositScheduleInterface",
+  fields: {
+    id: "string",
+    url: "string",
+    ach_relationship: "string",
+    amount: "string",
+    frequency: "string",
+    next_deposit_date: "string",
+    created_at: "string"
+  }
+};
+
+export const APIDepositSchedulesResponseSchema = list(
+  "APIDepositSchedulesResponse",
+  APIDepositScheduleInterfaceSchema
+);
+
+export const APIUserInterfaceSchema: Schema = {
+  name: "APIUserInterface",
+  fields: {
+    id: "string",
+    url: "string",
+    username: "string",
+    first_name: "string",
+    last_name: "string",
+    email: "string",
+    email_verified: "boolean",
+    id_info: "string",
+    basic_info: "string",
+    additional_info: "string",
+    employment: "string",
+    investment_profile: "string",
+    international_info: "string",
+    created_at: "string"
+  }
+};
+
+export const APIUserBasicInfoInterfaceSchema: Schema = {
+  name: "APIUserBasicInfoInterface",
+  fields: {
+    user: "string",
+    phone_number: "string",
+    address: "string",
+    city: "string",
+    state: "string",
+    zipcode: "string",
+    country_of_residence: "string",
+    citizenship: "string",
+    date_of_birth: "string",
+    marital_status: "string",
+    number_dependents: "number",
+    tax_id_ssn: "string",
+    updated_at: "string"
+  }
+};
+
+export const APIUserAdditionalInfoInterfaceSchema: Schema = {
+  name: "APIUserAdditionalInfoInterface",
+  fields: {
+    user: "string",
+    control_person: "boolean",
+    control_person_security_symbol: "string",
+    object_to_disclosure: "boolean",
+    security_affiliated_employee: "boolean",
+    security_affiliated_person: "boolean",
+    security_affiliated_firm_name: "string",
+    security_affiliated_firm_relationship: "string",
+    security_affiliated_address: "string",
+    security_affiliated_requires_duplicates: "boolean",
+    stock_loan_consent_status: "string",
+    sweep_consent: "boolean",
+    updated_at: "string"
+  }
+};
+
+export const APIUserEmploymentInterfaceSchema: Schema = {
+  name: "APIUserEmploymentInterface",
+  fields: {
+    user: "string",
+    employment_status: "string",
+    employer_name: "string",
+    employer_address: "string",
+    employer_city: "string",
+    employer_state: "string",
+    employer_zipcode: "string",
+    occupation: "string",
+    years_employed: "number",
+    updated_at: "string"
+  }
+};
+
+export const APIInvestmentProfileInterfaceSchema: Schema = {
+  name: "APIInvestmentProfileInterface",
+  fields: {
+    user: "string",
+    risk_tolerance: "string|null",
+    investment_experience: "string|null",
+    investment_experience_collected: "boolean",
+    investment_objective: "string|null",
+    time_horizon: "string|null",
+    liquidity_needs: "string|null",
+    annual_income: "string|null",
+    liquid_net_worth: "string|null",
+    total_net_worth: "string|null",
+    tax_bracket: "string|null",
+    source_of_funds: "string|null",
+    suitability_verified: "boolean",
+    updated_at: "string"
+  }
+};
+
+/**
+ * Schema of every response, keyed by HTTP method and endpoint
+ */
+export const RESPONSE_SCHEMAS: { [request: string]: Schema } = {
+  [`post ${ENDPOINTS.LOGIN}`]: APIAuthenticationResponseSchema,
+  [`get ${ENDPOINTS.QUOTES}`]: APIQuoteResponseSchema,
+  [`get ${ENDPOINTS.HISTORICALS}`]: APIHistoricalsResponseSchema,
+  [`get ${ENDPOINTS.INSTRUMENT}`]: APIInstrumentResponseSchema,
+  [`get ${ENDPOINTS.INSTRUMENTS}`]: APIInstrumentBySymbolResponseSchema,
+  [`get ${ENDPOINTS.FUNDAMENTALS}`]: APIFundamentalsResponseSchema,
+  [`get ${ENDPOINTS.ACCOUNTS}`]: APIAccountResponseSchema,
+  [`get ${ENDPOINTS.ORDERS}`]: APIOrdersResponseSchema,
+  [`post ${ENDPOINTS.ORDERS}`]: APIOrderResponseInterfaceSchema,
+  [`get ${ENDPOINTS.ORDER}`]: APIOrderResponseInterfaceSchema,
+  [`get ${ENDPOINTS.POSITIONS}`]: APIPositionsResponseSchema,
+  [`get ${ENDPOINTS.POSITION}`]: APIPositionInterfaceSchema,
+  [`get ${ENDPOINTS.WATCHLISTS}`]: APIWatchlistsResponseSchema,
+  [`post ${ENDPOINTS.WATCHLISTS}`]: APIWatchlistInterfaceSchema,
+  [`get ${ENDPOINTS.WATCHLIST}`]: APIWatchlistResponseSchema,
+  [`get ${ENDPOINTS.DIVIDENDS}`]: APIDividendsResponseSchema,
+  [`get ${ENDPOINTS.MARKETS}`]: APIMarketsResponseSchema,
+  [`get ${ENDPOINTS.MARKET}`]: APIMarketInterfaceSchema,
+  [`get ${ENDPOINTS.MARKET_HOURS}`]: APIMarketHoursInterfaceSchema,
+  [`get ${ENDPOINTS.NEWS}`]: APINewsResponseSchema,
+  [`get ${ENDPOINTS.ACH_RELATIONSHIPS}`]: APIACHRelationshipsResponseSchema,
+  [`get ${ENDPOINTS.ACH_TRANSFERS}`]: APIACHTransfersResponseSchema,
+  [`post ${ENDPOINTS.ACH_TRANSFERS}`]: APIACHTransferInterfaceSchema,
+  [`get ${ENDPOINTS.ACH_TRANSFER}`]: APIACHTransferInterfaceSchema,
+  [`get ${ENDPOINTS.ACH_DEPOSIT_SCHEDULES}`]: APIDepositSchedulesResponseSchema,
+  [`get ${ENDPOINTS.USER}`]: APIUserInterfaceSchema,
+  [`get ${ENDPOINTS.USER_BASIC_INFO}`]: APIUserBasicInfoInterfaceSchema,
+  [`get ${ENDPOINTS.USER_ADDITIONAL_INFO}`]:
+    APIUserAdditionalInfoInterfaceSchema,
+  [`get ${ENDPOINTS.USER_EMPLOYMENT}`]: APIUserEmploymentInterfaceSchema,
+  [`get ${ENDPOINTS.INVESTMENT_PROFILE}`]: APIInvestmentProfileInterfaceSchema,
+  // Both directions share a path so they're found as SP500_UP
+  [`get ${ENDPOINTS.SP500_UP}`]: APIMoversResponseSchema
+};
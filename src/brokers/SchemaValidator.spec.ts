@@ -0,0 +1,168 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+
+import { API_URL, ENDPOINTS } from "./RobinhoodAPIConfiguration";
+import SchemaValidator, { Schema, SchemaError } from "./SchemaValidator";
+
+const POSITION_SCHEMA: Schema = {
+  name: "Position",
+  fields: {
+    quantity: "string",
+    average_buy_price: "string|null",
+    intraday_quantity: "string?",
+    instrument: {
+      name: "Instrument",
+      fields: { symbol: "string" }
+    }
+  }
+};
+
+const POSITIONS_SCHEMA: Schema = {
+  name: "Positions",
+  fields: { results: { items: POSITION_SCHEMA } }
+};
+
+describe("SchemaValidator", () => {
+  let instance, logger;
+
+  beforeEach(() => {
+    logger = sinon.spy();
+    instance = new SchemaValidator({ logger });
+  });
+
+  describe("#validate", () => {
+    it("passes values matching the schema along", () => {
+      let value = {
+        quantity: "1.0000",
+        average_buy_price: null,
+        instrument: { symbol: "FB" }
+      };
+
+      expect(instance.validate(POSITION_SCHEMA, value)).to.equal(value);
+      expect(instance.getDriftReport()).to.deep.equal({});
+    });
+
+    it("throws a SchemaError on missing and invalid fields", () => {
+      let error;
+
+      try {
+        instance.validate(POSITIONS_SCHEMA, {
+          results: [{ quantity: 1, instrument: { symbol: "FB" } }]
+        });
+      } catch (schemaError) {
+        error = schemaError;
+      }
+
+      expect(error).to.be.an.instanceof(SchemaError);
+      expect(error.schema).to.equal("Positions");
+      expect(error.issues).to.deep.equal({
+        missing: ["results[].average_buy_price"],
+        unknown: [],
+        invalid: ["results[].quantity"]
+      });
+      expect(error.message).to.equal(
+        "Positions doesn't match the response: " +
+          "missing results[].average_buy_price; invalid results[].quantity"
+      );
+    });
+
+    it("doesn't throw on unknown fields", () => {
+      instance.validate(POSITION_SCHEMA, {
+        quantity: "1.0000",
+        average_buy_price: "2.0000",
+        instrument: { symbol: "FB", name: "Facebook" }
+      });
+
+      expect(instance.getDriftReport()).to.deep.equal({
+        Position: { missing: [], unknown: ["instrument.name"], invalid: [] }
+      });
+    });
+
+    it("logs drift when warning", () => {
+      instance = new SchemaValidator({ mode: "warn", logger });
+
+      let value = { quantity: "1.0000", instrument: {} };
+
+      expect(instance.validate(POSITION_SCHEMA, value)).to.equal(value);
+      expect(logger.args[0]).to.deep.equal([
+        "Position doesn't match the response: " +
+          "missing average_buy_price, instrument.symbol"
+      ]);
+    });
+
+    it("collects drift across responses", () => {
+      instance = new SchemaValidator({ mode: "collect", logger });
+
+      instance.validate(POSITIONS_SCHEMA, {
+        results: [
+          { quantity: "1", average_buy_price: "1", instrument: [] },
+          { quantity: "1", instrument: { symbol: "FB" }, foo: "bar" }
+        ]
+      });
+      instance.validate(POSITIONS_SCHEMA, {
+        results: [{ instrument: { symbol: "FB" }, foo: "bar" }],
+        next: null
+      });
+
+      expect(logger.callCount).to.equal(0);
+      expect(instance.getDriftReport()).to.deep.equal({
+        Positions: {
+          missing: ["results[].average_buy_price", "results[].quantity"],
+          unknown: ["results[].foo", "next"],
+          invalid: ["results[].instrument"]
+        }
+      });
+
+      instance.clearDriftReport();
+      expect(instance.getDriftReport()).to.deep.equal({});
+    });
+  });
+
+  describe("#wrap", () => {
+    let request;
+
+    beforeEach(() => {
+      request = {
+        get: sinon.stub().resolves({ results: [{ quantity: 1 }] }),
+        post: sinon.stub().resolves({ foo: "bar" })
+      };
+      instance = new SchemaValidator({
+        schemas: { [`get ${ENDPOINTS.POSITIONS}`]: POSITIONS_SCHEMA }
+      });
+    });
+
+    it("validates responses using their endpoint's schema", done => {
+      instance
+        .wrap(request)
+        .get({ uri: API_URL + ENDPOINTS.POSITIONS + "?cursor=foo" })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(SchemaError);
+          expect(error.schema).to.equal("Positions");
+          done();
+        });
+    });
+
+    it("passes responses without a schema along", done => {
+      instance
+        .wrap(request)
+        .post({ uri: API_URL + ENDPOINTS.POSITIONS })
+        .then(body => {
+          expect(body).to.deep.equal({ foo: "bar" });
+          done();
+        });
+    });
+
+    it("rejects with the request's error", done => {
+      request.get.rejects({ detail: "foobar" });
+
+      instance
+        .wrap(request)
+        .get({ uri: API_URL + ENDPOINTS.POSITIONS })
+        .catch(error => {
+          expect(error).to.deep.equal({ detail: "foobar" });
+          done();
+        });
+    });
+  });
+});
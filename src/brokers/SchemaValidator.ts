@@ -0,0 +1,246 @@
+import { findEndpoint } from "./RobinhoodAPIConfiguration";
+import { RESPONSE_SCHEMAS } from "./RobinhoodSchemas";
+
+/**
+ * Field types are "string", "number", "boolean", "object", "null" or "any",
+ * joined by "|" when a field takes several, e.g. "string|null".
+ * A trailing "?" means the field may be left out.
+ */
+export type FieldSchema = string | Schema | ArraySchema;
+
+export interface Schema {
+  name: string; // Interface the schema describes, e.g. "APIQuoteInterface"
+  fields: { [field: string]: FieldSchema };
+}
+
+export interface ArraySchema {
+  items: FieldSchema;
+}
+
+export interface SchemaIssues {
+  missing: string[]; // Paths such as "results[].ask_price"
+  unknown: string[];
+  invalid: string[];
+}
+
+export type SchemaValidationMode =
+  | "throw" // Rejects with a SchemaError on missing or invalid fields
+  | "warn" // Logs every drift and passes the response along
+  | "collect"; // Only records drift, see getDriftReport
+
+export interface SchemaValidatorOptions {
+  mode?: SchemaValidationMode;
+  schemas?: { [request: string]: Schema }; // Defaults to RESPONSE_SCHEMAS
+  logger?: (message: string) => void; // Used by "warn", defaults to console
+}
+
+interface RequestLike {
+  get(options: any): PromiseLike<any>;
+  post(options: any): PromiseLike<any>;
+  delete?(options: any): PromiseLike<any>;
+}
+
+export class SchemaError extends Error {
+  public schema: string;
+  public issues: SchemaIssues;
+
+  constructor(schema: string, issues: SchemaIssues) {
+    super(`${schema} doesn't match the response: ${describeIssues(issues)}`);
+
+    // Keeps instanceof working when compiling to ES5
+    Object.setPrototypeOf(this, SchemaError.prototype);
+    this.name = "SchemaError";
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks API responses against their schema so changes to the API
+ * are caught where the response comes in, not deep inside a strategy
+ */
+export default class SchemaValidator {
+  protected options: SchemaValidatorOptions;
+  protected drift: { [schema: string]: SchemaIssues } = {};
+
+  constructor(options: SchemaValidatorOptions = {}) {
+    this.options = Object.assign(
+      {
+        mode: "throw",
+        schemas: RESPONSE_SCHEMAS,
+        logger: message => console.warn(message)
+      },
+      options
+    );
+  }
+
+  /**
+   * Wraps a request-promise instance so every response is validated
+   */
+  public wrap<T extends RequestLike>(request: T): T {
+    let wrapped = Object.create(request);
+
+    ["get", "post", "delete"].forEach(method => {
+      wrapped[method] = options =>
+        Promise.resolve(request[method](options)).then(body =>
+          this.validateResponse(method, options.uri, body)
+        );
+    });
+
+    return wrapped;
+  }
+
+  /**
+   * Validates a response using the schema of its endpoint,
+   * responses from endpoints without a schema are passed along
+   * @param  method {String} HTTP method
+   * @param  uri {String} Used to find the endpoint's schema
+   * @param  body {any} Response
+   */
+  public validateResponse<T>(method: string, uri: string, body: T): T {
+    let schema = this.options.schemas[`${method} ${findEndpoint(uri)}`];
+
+    return schema ? this.validate(schema, body) : body;
+  }
+
+  /**
+   * Validates a value, what happens on drift depends on the mode
+   * @return The value when it's not rejected
+   */
+  public validate<T>(schema: Schema, value: T): T {
+    let issues = { missing: [], unknown: [], invalid: [] } as SchemaIssues;
+    checkSchema(schema, value, "", issues);
+
+    if (
+      !issues.missing.length &&
+      !issues.unknown.length &&
+      !issues.invalid.length
+    ) {
+      return value;
+    }
+
+    this.record(schema.name, issues);
+
+    if (
+      this.options.mode === "throw" &&
+      (issues.missing.length || issues.invalid.length)
+    ) {
+      throw new SchemaError(schema.name, issues);
+    }
+
+    if (this.options.mode === "warn") {
+      this.options.logger(
+        `${schema.name} doesn't match the response: ${describeIssues(issues)}`
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Every unknown, missing and invalid field seen so far, by schema
+   */
+  public getDriftReport(): { [schema: string]: SchemaIssues } {
+    return JSON.parse(JSON.stringify(this.drift));
+  }
+
+  public clearDriftReport(): void {
+    this.drift = {};
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected record(schema: string, issues: SchemaIssues): void {
+    let drift = (this.drift[schema] = this.drift[schema] || {
+      missing: [],
+      unknown: [],
+      invalid: []
+    });
+
+    Object.keys(issues).forEach(kind =>
+      issues[kind]
+        .filter(path => !drift[kind].includes(path))
+        .forEach(path => drift[kind].push(path))
+    );
+  }
+}
+
+function describeIssues(issues: SchemaIssues): string {
+  return Object.keys(issues)
+    .filter(kind => issues[kind].length)
+    .map(kind => `${kind} ${issues[kind].join(", ")}`)
+    .join("; ");
+}
+
+function checkSchema(
+  schema: Schema,
+  value: any,
+  path: string,
+  issues: SchemaIssues
+): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.invalid.push(path || schema.name);
+    return;
+  }
+
+  let prefix = path ? path + "." : "";
+
+  Object.keys(schema.fields).forEach(field => {
+    let fieldSchema = schema.fields[field];
+
+    if (!(field in value)) {
+      if (typeof fieldSchema !== "string" || !fieldSchema.endsWith("?")) {
+        issues.missing.push(prefix + field);
+      }
+      return;
+    }
+
+    checkField(fieldSchema, value[field], prefix + field, issues);
+  });
+
+  Object.keys(value)
+    .filter(field => !(field in schema.fields))
+    .forEach(field => issues.unknown.push(prefix + field));
+}
+
+function checkField(
+  fieldSchema: FieldSchema,
+  value: any,
+  path: string,
+  issues: SchemaIssues
+): void {
+  if (typeof fieldSchema === "string") {
+    let types = fieldSchema.replace(/\?$/, "").split("|");
+
+    if (!types.some(type => isType(type, value))) {
+      issues.invalid.push(path);
+    }
+  } else if ("items" in fieldSchema) {
+    if (!Array.isArray(value)) {
+      issues.invalid.push(path);
+      return;
+    }
+
+    // Indexes are left out so drift in every item is reported once
+    value.forEach(item =>
+      checkField((fieldSchema as ArraySchema).items, item, path + "[]", issues)
+    );
+  } else {
+    checkSchema(fieldSchema as Schema, value, path, issues);
+  }
+}
+
+function isType(type: string, value: any): boolean {
+  switch (type) {
+    case "any":
+      return true;
+    case "null":
+      return value === null;
+    case "object":
+      return typeof value === "object" && value !== null;
+    default:
+      return typeof value === type;
+  }
+}
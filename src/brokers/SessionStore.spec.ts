@@ -0,0 +1,90 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import fs = require("fs");
+import os = require("os");
+import path = require("path");
+
+import { FileSessionStore, MemorySessionStore } from "./SessionStore";
+
+describe("SessionStore", () => {
+  let session;
+
+  beforeEach(() => {
+    session = { authToken: "foobar", account: { url: "http://foo.bar/baz" } };
+  });
+
+  describe("MemorySessionStore", () => {
+    it("loads what was saved until it's cleared", done => {
+      let instance = new MemorySessionStore();
+
+      instance
+        .save(session)
+        .then(() => instance.load())
+        .then(loaded => {
+          expect(loaded).to.deep.equal(session);
+          return instance.clear();
+        })
+        .then(() => instance.load())
+        .then(loaded => {
+          expect(loaded).to.equal(null);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("FileSessionStore", () => {
+    let file, instance;
+
+    beforeEach(() => {
+      file = path.join(os.tmpdir(), `session-store-${process.pid}.json`);
+      instance = new FileSessionStore(file);
+    });
+
+    afterEach(done => {
+      fs.unlink(file, () => done());
+    });
+
+    it("resolves null when nothing has been saved", done => {
+      instance.load().then(loaded => {
+        expect(loaded).to.equal(null);
+        done();
+      });
+    });
+
+    it("writes the session to a file only the owner can read", done => {
+      instance
+        .save(session)
+        .then(() => {
+          expect(fs.statSync(file).mode & 0o777).to.equal(0o600);
+          return new FileSessionStore(file).load();
+        })
+        .then(loaded => {
+          expect(loaded).to.deep.equal(session);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("removes the file when cleared", done => {
+      instance
+        .save(session)
+        .then(() => instance.clear())
+        .then(() => {
+          expect(fs.existsSync(file)).to.equal(false);
+          return instance.clear();
+        })
+        .then(() => done())
+        .catch(done);
+    });
+
+    it("rejects on invalid contents", done => {
+      fs.writeFileSync(file, "foo");
+
+      instance.load().catch(error => {
+        expect(error).to.be.an.instanceof(SyntaxError);
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import fs = require("fs");
+
+import { APIAccountInterface } from "./RobinhoodInterfaces";
+
+export interface Session {
+  authToken: string;
+  account: APIAccountInterface;
+}
+
+/**
+ * Persists the authenticated session so a restart doesn't require logging in
+ * again, which could trigger Multi-Factor Authentication
+ */
+export interface SessionStore {
+  load(): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemorySessionStore implements SessionStore {
+  protected session: Session = null;
+
+  public load(): Promise<Session | null> {
+    return Promise.resolve(this.session);
+  }
+
+  public save(session: Session): Promise<void> {
+    this.session = session;
+    return Promise.resolve();
+  }
+
+  public clear(): Promise<void> {
+    this.session = null;
+    return Promise.resolve();
+  }
+}
+
+export class FileSessionStore implements SessionStore {
+  protected path: string;
+
+  /**
+   * @param  path {String} JSON file the session is written to
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public load(): Promise<Session | null> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(this.path, "utf8", (error, contents) => {
+        if (error) {
+          return error.code === "ENOENT" ? resolve(null) : reject(error);
+        }
+
+        try {
+          resolve(JSON.parse(contents));
+        } catch (parseError) {
+          reject(parseError);
+        }
+      });
+    });
+  }
+
+  public save(session: Session): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      // Only the owner should be able to read the token
+      fs.writeFile(
+        this.path,
+        JSON.stringify(session),
+        { encoding: "utf8", mode: 0o600 },
+        error => (error ? reject(error) : resolve())
+      );
+    });
+  }
+
+  public clear(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fs.unlink(this.path, error => {
+        if (error && error.code !== "ENOENT") {
+          return reject(error);
+        }
+
+        resolve();
+      });
+    });
+  }
+}
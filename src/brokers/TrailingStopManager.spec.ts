@@ -0,0 +1,459 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import sinon = require("sinon");
+import EventEmitter = require("events");
+
+import { TrailingStopError } from "./RobinhoodErrors";
+import {
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType
+} from "./RobinhoodInterfaces";
+import TrailingStopManager, {
+  TRAILING_STOP_EVENTS
+} from "./TrailingStopManager";
+import { MemoryTrailingStopStore } from "./TrailingStopStore";
+
+// Settles tracked orders when told to instead of polling
+class FakeTracker extends EventEmitter {
+  public resolvers = {};
+  public promises = {};
+
+  public track(order) {
+    if (!this.promises[order.id]) {
+      this.promises[order.id] = new Promise(
+        resolve => (this.resolvers[order.id] = resolve)
+      );
+    }
+
+    return this.promises[order.id];
+  }
+
+  public settle(id, state, cumulativeQuantity = "0") {
+    this.resolvers[id]({ id, state, cumulative_quantity: cumulativeQuantity });
+  }
+}
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function quote(symbol, price) {
+  return { results: [{ symbol, last_trade_price: price }] };
+}
+
+describe("TrailingStopManager", () => {
+  let broker, tracker, store, instance;
+
+  beforeEach(() => {
+    broker = {
+      getInstrumentBySymbol: sinon.stub().resolves({
+        results: [{ url: "http://baz.qux", min_tick_size: "0.01" }]
+      }),
+      getQuote: sinon.stub().resolves(quote("FB", "100.00")),
+      getOrder: sinon
+        .stub()
+        .callsFake(id =>
+          Promise.resolve({ id, state: APIOrderState.confirmed })
+        ),
+      placeSellOrder: sinon.stub(),
+      placeBuyOrder: sinon.stub(),
+      placeMarketOrder: sinon.stub().resolves({ id: "market" }),
+      cancelOrder: sinon.stub().resolves({})
+    };
+    broker.placeSellOrder.onCall(0).resolves({ id: "first" });
+    broker.placeSellOrder.onCall(1).resolves({ id: "second" });
+    broker.placeBuyOrder.resolves({ id: "first" });
+    tracker = new FakeTracker();
+    store = new MemoryTrailingStopStore();
+    instance = new TrailingStopManager(broker, {
+      store,
+      tracker: tracker as any
+    });
+  });
+
+  afterEach(() => instance.stop());
+
+  describe("#add", () => {
+    it("needs a single trail", done => {
+      instance
+        .add({ symbol: "fb", quantity: 10 })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(TrailingStopError);
+          expect(error.message).to.equal(
+            "Set either trailPercent or trailAmount"
+          );
+          return instance.add({
+            symbol: "fb",
+            quantity: 10,
+            trailPercent: 0.05,
+            trailAmount: "2.00"
+          });
+        })
+        .catch(error => {
+          expect(error).to.be.an.instanceof(TrailingStopError);
+          return instance.add({ symbol: "fb", quantity: 10, trailPercent: 5 });
+        })
+        .catch(error => {
+          expect(error.message).to.equal("Invalid trail for FB");
+          expect(broker.getQuote.callCount).to.equal(0);
+          done();
+        });
+    });
+
+    it("places a stop order trailing the last trade", done => {
+      instance
+        .add({ symbol: "fb", quantity: 10, trailPercent: 0.05 })
+        .then(stop => {
+          expect(stop).to.deep.include({
+            symbol: "FB",
+            side: APIOrderSide.sell,
+            quantity: "10",
+            highWaterMark: "100.00",
+            stopPrice: "95.00",
+            orderId: "first"
+          });
+          expect(broker.placeSellOrder.args[0]).to.deep.equal([
+            {
+              instrument: "http://baz.qux",
+              symbol: "FB",
+              quantity: "10",
+              time_in_force: APIOrderTimeInForce.gtc,
+              type: APIOrderType.market,
+              trigger: APIOrderTrigger.stop,
+              stop_price: "95.00",
+              price: null
+            }
+          ]);
+          return store.load();
+        })
+        .then(stops => {
+          expect(stops.length).to.equal(1);
+          expect(stops[0].stopPrice).to.equal("95.00");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("trails above the price when buying", done => {
+      instance
+        .add({
+          symbol: "fb",
+          quantity: 10,
+          side: APIOrderSide.buy,
+          trailAmount: "2.50"
+        })
+        .then(stop => {
+          expect(stop.stopPrice).to.equal("102.50");
+          expect(broker.placeBuyOrder.args[0][0].stop_price).to.equal("102.50");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects a second stop for the same symbol", done => {
+      let options = { symbol: "fb", quantity: 10, trailAmount: "2.50" };
+
+      instance
+        .add(options)
+        .then(() => instance.add(options))
+        .catch(error => {
+          expect(error.message).to.equal("FB already has a trailing stop");
+          done();
+        });
+    });
+
+    it("rejects a second stop added at the same time", done => {
+      let options = { symbol: "fb", quantity: 10, trailAmount: "2.50" };
+      let first = instance.add(options);
+
+      instance
+        .add(options)
+        .catch(error => {
+          expect(error.message).to.equal("FB already has a trailing stop");
+          return first;
+        })
+        .then(() => {
+          expect(broker.placeSellOrder.callCount).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("can be added again after its stop order fails to be placed", done => {
+      let options = { symbol: "fb", quantity: 10, trailAmount: "2.50" };
+      broker.placeSellOrder.onCall(0).rejects(new Error("Nope"));
+
+      instance
+        .add(options)
+        .catch(error => {
+          expect(error.message).to.equal("Nope");
+          expect(instance.getStops()).to.deep.equal([]);
+          return instance.add(options);
+        })
+        .then(stop => {
+          expect(stop.orderId).to.equal("second");
+          expect(instance.getStops().length).to.equal(1);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("stop mode", () => {
+    beforeEach(() =>
+      instance.add({ symbol: "fb", quantity: 10, trailPercent: 0.05 })
+    );
+
+    it("replaces the stop order as the price rises", done => {
+      let moved = sinon.spy();
+      instance.on(TRAILING_STOP_EVENTS.TRAILING_STOP_MOVED, moved);
+      broker.getQuote.resolves(quote("FB", "110.00"));
+
+      let polled = instance.poll();
+
+      flush()
+        .then(() => {
+          expect(broker.cancelOrder.args[0][0].id).to.equal("first");
+          tracker.settle("first", APIOrderState.cancelled);
+          return polled;
+        })
+        .then(() => {
+          expect(broker.placeSellOrder.lastCall.args[0].stop_price).to.equal(
+            "104.50"
+          );
+          expect(moved.args[0][0].stop).to.deep.include({
+            highWaterMark: "110.00",
+            stopPrice: "104.50",
+            orderId: "second"
+          });
+          return store.load();
+        })
+        .then(stops => {
+          expect(stops[0].highWaterMark).to.equal("110.00");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("doesn't move down", done => {
+      broker.getQuote.resolves(quote("FB", "96.00"));
+
+      instance
+        .poll()
+        .then(() => {
+          expect(broker.cancelOrder.callCount).to.equal(0);
+          expect(instance.getStops()[0].stopPrice).to.equal("95.00");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("triggers when the stop order fills", done => {
+      instance.on(
+        TRAILING_STOP_EVENTS.TRAILING_STOP_TRIGGERED,
+        ({ stop, order }) => {
+          expect(stop.symbol).to.equal("FB");
+          expect(order.id).to.equal("first");
+          expect(instance.getStops()).to.deep.equal([]);
+          done();
+        }
+      );
+
+      tracker.settle("first", APIOrderState.filled, "10");
+    });
+
+    it("triggers when the stop order fills while being replaced", done => {
+      let moved = sinon.spy();
+      instance.on(TRAILING_STOP_EVENTS.TRAILING_STOP_MOVED, moved);
+      instance.on(TRAILING_STOP_EVENTS.TRAILING_STOP_TRIGGERED, () => {
+        expect(moved.callCount).to.equal(0);
+        expect(broker.placeSellOrder.callCount).to.equal(1);
+        done();
+      });
+      broker.getQuote.resolves(quote("FB", "110.00"));
+
+      instance.poll();
+      flush().then(() => tracker.settle("first", APIOrderState.filled, "10"));
+    });
+
+    it("keeps the stop order when it can't be looked up", done => {
+      broker.getQuote.resolves(quote("FB", "110.00"));
+      broker.getOrder.rejects(new Error("timeout"));
+
+      instance
+        .poll()
+        .then(() => {
+          expect(broker.placeSellOrder.callCount).to.equal(1);
+          expect(instance.getStops()[0]).to.deep.include({
+            highWaterMark: "100.00",
+            stopPrice: "95.00",
+            orderId: "first"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("requests the cancel again when it fails", done => {
+      broker.getQuote.resolves(quote("FB", "110.00"));
+      broker.cancelOrder.onCall(0).rejects(new Error("timeout"));
+
+      let polled = instance.poll();
+
+      flush()
+        .then(() => {
+          expect(broker.cancelOrder.callCount).to.equal(2);
+          tracker.settle("first", APIOrderState.cancelled);
+          return polled;
+        })
+        .then(() => {
+          expect(instance.getStops()[0].orderId).to.equal("second");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("stops waiting for a cancel that never completes", done => {
+      instance.options.cancelTimeout = 10;
+      broker.getQuote.resolves(quote("FB", "110.00"));
+
+      instance
+        .poll()
+        .then(() => {
+          expect(broker.placeSellOrder.callCount).to.equal(1);
+          expect(instance.getStops()[0]).to.deep.include({
+            stopPrice: "95.00",
+            orderId: "first"
+          });
+          done();
+        })
+        .catch(done);
+    });
+
+    it("cancels the stop order when removed", done => {
+      instance
+        .remove("fb")
+        .then(() => {
+          expect(broker.cancelOrder.args[0][0].id).to.equal("first");
+          expect(instance.getStops()).to.deep.equal([]);
+          done();
+        })
+        .catch(done);
+      flush().then(() => tracker.settle("first", APIOrderState.cancelled));
+    });
+    it("keeps trailing when the stop order can't be canceled", done => {
+      broker.getOrder.rejects(new Error("timeout"));
+
+      instance
+        .remove("fb")
+        .catch(error => {
+          expect(error.message).to.equal("timeout");
+          expect(instance.getStops()[0].orderId).to.equal("first");
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("market mode", () => {
+    beforeEach(() =>
+      instance.add({
+        symbol: "fb",
+        quantity: 10,
+        mode: "market",
+        trailAmount: "2.00"
+      })
+    );
+
+    it("only moves the stop price", done => {
+      broker.getQuote.resolves(quote("FB", "105.00"));
+
+      instance
+        .poll()
+        .then(() => {
+          expect(broker.placeSellOrder.callCount).to.equal(0);
+          expect(instance.getStops()[0].stopPrice).to.equal("103.00");
+          done();
+        })
+        .catch(done);
+    });
+
+    it("places a market order once the stop price is hit", done => {
+      instance.on(TRAILING_STOP_EVENTS.TRAILING_STOP_TRIGGERED, ({ order }) => {
+        expect(order.id).to.equal("market");
+        expect(broker.placeMarketOrder.args[0]).to.deep.equal([
+          "FB",
+          APIOrderSide.sell,
+          "10"
+        ]);
+        expect(instance.getStops()).to.deep.equal([]);
+        done();
+      });
+      broker.getQuote.resolves(quote("FB", "97.99"));
+
+      instance.poll();
+    });
+  });
+
+  describe("#resume", () => {
+    let saved;
+
+    beforeEach(() => {
+      saved = {
+        symbol: "FB",
+        instrument: "http://baz.qux",
+        side: APIOrderSide.sell,
+        quantity: "10",
+        mode: "stop",
+        trailPercent: null,
+        trailAmount: "2.00",
+        tickSize: "0.01",
+        highWaterMark: "120.00",
+        stopPrice: "118.00",
+        orderId: "first"
+      };
+    });
+
+    it("keeps the saved high-water mark", done => {
+      store
+        .save([saved])
+        .then(() => instance.resume())
+        .then(stops => {
+          expect(stops).to.deep.equal([saved]);
+          expect(broker.placeSellOrder.callCount).to.equal(0);
+          expect(tracker.promises.first).to.be.an.instanceof(Promise);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("triggers if the stop order filled in the meantime", done => {
+      broker.getOrder.resolves({ id: "first", state: APIOrderState.filled });
+      instance.on(TRAILING_STOP_EVENTS.TRAILING_STOP_TRIGGERED, ({ order }) => {
+        expect(order.id).to.equal("first");
+        done();
+      });
+
+      store.save([saved]).then(() => instance.resume());
+    });
+
+    it("places the stop order again if it was canceled", done => {
+      broker.getOrder.resolves({ id: "first", state: APIOrderState.cancelled });
+
+      store
+        .save([saved])
+        .then(() => instance.resume())
+        .then(stops => {
+          expect(broker.placeSellOrder.args[0][0].stop_price).to.equal(
+            "118.00"
+          );
+          expect(stops[0].orderId).to.equal("first");
+          done();
+        })
+        .catch(done);
+    });
+  });
+});
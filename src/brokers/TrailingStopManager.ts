@@ -0,0 +1,603 @@
+import EventEmitter = require("events");
+
+import Decimal from "./Decimal";
+import OrderTracker from "./OrderTracker";
+import Robinhood, {
+  ERRORS,
+  EVENTS,
+  OrderStopMarketInterface
+} from "./Robinhood";
+import { TrailingStopError } from "./RobinhoodErrors";
+import {
+  APIOrderResponseInterface,
+  APIOrderSide,
+  APIOrderState,
+  APIOrderTimeInForce,
+  APIOrderTrigger,
+  APIOrderType,
+  APIQuoteInterface
+} from "./RobinhoodInterfaces";
+import {
+  MemoryTrailingStopStore,
+  TrailingStopMode,
+  TrailingStopState,
+  TrailingStopStore
+} from "./TrailingStopStore";
+
+export interface TrailingStopOptions {
+  symbol: string;
+  quantity: number | string;
+  side?: APIOrderSide; // Defaults to "sell", protecting a long position
+  mode?: TrailingStopMode; // Defaults to "stop"
+  trailPercent?: number; // 0.05 trails 5% behind the best price
+  trailAmount?: string; // "2.50" trails $2.50 behind the best price
+}
+
+export interface TrailingStopManagerOptions {
+  store?: TrailingStopStore; // Defaults to keeping stops in memory
+  tracker?: OrderTracker; // Polls the stop orders, can be shared
+  interval?: number; // Milliseconds between quote polls
+  cancelAttempts?: number; // Times a stop order cancel is requested
+  cancelTimeout?: number; // Milliseconds to wait for a stop order to cancel
+}
+
+export interface TrailingStopEvent {
+  stop: TrailingStopState;
+  order?: APIOrderResponseInterface; // Order that closed the position
+}
+
+export const enum TRAILING_STOP_EVENTS {
+  TRAILING_STOP_MOVED = "TRAILING_STOP_MOVED",
+  TRAILING_STOP_TRIGGERED = "TRAILING_STOP_TRIGGERED"
+}
+
+const DEFAULT_OPTIONS: TrailingStopManagerOptions = {
+  interval: 1000 * 5, // 5 seconds
+  cancelAttempts: 3,
+  cancelTimeout: 1000 * 60 // 1 minute
+};
+
+const DEFAULT_TICK_SIZE = "0.01";
+
+const DONE_STATES = [
+  APIOrderState.filled,
+  APIOrderState.rejected,
+  APIOrderState.failed,
+  APIOrderState.canceled,
+  APIOrderState.cancelled
+];
+
+/**
+ * Client side trailing stops, Robinhood doesn't have them.
+ * Quotes are polled and the stop follows the best price seen, either by
+ * replacing a resting stop order or by placing a market order once the stop
+ * price is hit. Stops are saved to the store whenever they change.
+ */
+export default class TrailingStopManager extends EventEmitter {
+  protected broker: Robinhood;
+  protected store: TrailingStopStore;
+  protected tracker: OrderTracker;
+  protected options: TrailingStopManagerOptions;
+  protected stops: { [symbol: string]: TrailingStopState } = {};
+  protected canceling: { [orderId: string]: boolean } = {};
+  protected adding: { [symbol: string]: boolean } = {};
+  protected timeout: NodeJS.Timer = null;
+
+  /**
+   * @param  broker {Robinhood}
+   * @param  options {TrailingStopManagerOptions}
+   */
+  constructor(broker: Robinhood, options: TrailingStopManagerOptions = {}) {
+    super();
+
+    this.broker = broker;
+    this.options = Object.assign({}, DEFAULT_OPTIONS, options);
+    this.store = this.options.store || new MemoryTrailingStopStore();
+    this.tracker = this.options.tracker || new OrderTracker(broker);
+  }
+
+  /**
+   * Starts trailing a position, the high-water mark starts at the last trade
+   * @return Promise resolved with the stop once it's saved
+   */
+  public add(options: TrailingStopOptions): Promise<TrailingStopState> {
+    let symbol = options.symbol.toUpperCase();
+    let hasPercent = options.trailPercent != null;
+    let hasAmount = options.trailAmount != null;
+
+    if (hasPercent === hasAmount) {
+      return Promise.reject(
+        new TrailingStopError("Set either trailPercent or trailAmount")
+      );
+    }
+
+    if (
+      (hasPercent && !(options.trailPercent > 0 && options.trailPercent < 1)) ||
+      (hasAmount && !new Decimal(options.trailAmount).gt(0))
+    ) {
+      return Promise.reject(
+        new TrailingStopError(`Invalid trail for ${symbol}`)
+      );
+    }
+
+    if (this.stops[symbol] || this.adding[symbol]) {
+      return Promise.reject(
+        new TrailingStopError(`${symbol} already has a trailing stop`)
+      );
+    }
+
+    // Reserved while the stop is set up so it's only added once
+    this.adding[symbol] = true;
+
+    return Promise.all([
+      this.broker.getInstrumentBySymbol(symbol),
+      this.broker.getQuote(symbol)
+    ])
+      .then(([instruments, quotes]) => {
+        let instrument = instruments.results[0];
+        let price = quotes.results[0] && this.getPrice(quotes.results[0]);
+
+        if (!instrument || !price) {
+          throw new TrailingStopError(`No quote found for ${symbol}`);
+        }
+
+        let stop: TrailingStopState = {
+          symbol,
+          instrument: instrument.url,
+          side: options.side || APIOrderSide.sell,
+          quantity: String(options.quantity),
+          mode: options.mode || "stop",
+          trailPercent: hasPercent ? options.trailPercent : null,
+          trailAmount: hasAmount ? options.trailAmount : null,
+          tickSize: instrument.min_tick_size || DEFAULT_TICK_SIZE,
+          highWaterMark: price,
+          stopPrice: null,
+          orderId: null
+        };
+
+        stop.stopPrice = this.getStopPrice(stop);
+        this.stops[symbol] = stop;
+
+        return (stop.mode === "stop"
+          ? this.placeStopOrder(stop)
+          : Promise.resolve()
+        )
+          .catch(error => {
+            // Nothing was placed so nothing is left to trail
+            delete this.stops[symbol];
+            throw error;
+          })
+          .then(() => this.save())
+          .then(() => {
+            this.start();
+            return Object.assign({}, stop);
+          });
+      })
+      .then(
+        stop => {
+          delete this.adding[symbol];
+          return stop;
+        },
+        error => {
+          delete this.adding[symbol];
+          throw error;
+        }
+      );
+  }
+
+  /**
+   * Stops trailing a position, cancelling its stop order
+   */
+  public remove(symbol: string): Promise<void> {
+    let stop = this.stops[symbol.toUpperCase()];
+
+    if (!stop) {
+      return Promise.reject(
+        new TrailingStopError(`No trailing stop for ${symbol}`)
+      );
+    }
+
+    delete this.stops[stop.symbol];
+
+    return this.cancelStopOrder(stop).then(
+      () => this.save(),
+      error => {
+        // Still trailed so its stop order isn't forgotten
+        this.stops[stop.symbol] = stop;
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Picks up the stops saved by a previous run. A stop order that filled
+   * while nothing was running triggers the stop, one that was canceled
+   * is placed again.
+   */
+  public resume(): Promise<TrailingStopState[]> {
+    return this.store
+      .load()
+      .then(stops =>
+        Promise.all(
+          stops.filter(stop => !this.stops[stop.symbol]).map(stop => {
+            this.stops[stop.symbol] = stop;
+            return this.resumeStop(stop);
+          })
+        )
+      )
+      .then(() => this.save())
+      .then(() => {
+        this.start();
+        return this.getStops();
+      });
+  }
+
+  /**
+   * Stops polling quotes, stop orders are left in place
+   */
+  public stop(): void {
+    clearTimeout(this.timeout);
+    this.timeout = null;
+  }
+
+  public getStops(): TrailingStopState[] {
+    return Object.keys(this.stops).map(symbol =>
+      Object.assign({}, this.stops[symbol])
+    );
+  }
+
+  /*******************
+   * Private Methods *
+   *******************/
+
+  protected start(): void {
+    if (!this.timeout) {
+      this.schedule();
+    }
+  }
+
+  protected schedule(): void {
+    this.timeout = setTimeout(() => this.poll(), this.options.interval);
+  }
+
+  protected poll(): Promise<void> {
+    let symbols = Object.keys(this.stops);
+
+    if (!symbols.length) {
+      this.timeout = null;
+      return Promise.resolve();
+    }
+
+    return this.broker
+      .getQuote(symbols)
+      .then(quotes =>
+        quotes.results.reduce(
+          (previous, quote) =>
+            previous.then(() => {
+              let stop = quote && this.stops[quote.symbol];
+              let price = stop && this.getPrice(quote);
+
+              // One symbol failing doesn't hold up the others
+              return price
+                ? this.update(stop, price).catch(error => this.emitError(error))
+                : undefined;
+            }),
+          Promise.resolve()
+        )
+      )
+      .catch(error => this.emitError(error))
+      .then(() => {
+        // Stopped while the quotes were in flight
+        if (this.timeout) {
+          this.schedule();
+        }
+      });
+  }
+
+  protected update(stop: TrailingStopState, price: string): Promise<void> {
+    let isSell = stop.side === APIOrderSide.sell;
+
+    if (
+      stop.mode === "market" &&
+      (isSell
+        ? new Decimal(price).lte(stop.stopPrice)
+        : new Decimal(price).gte(stop.stopPrice))
+    ) {
+      return this.placeMarketOrder(stop);
+    }
+
+    if (
+      isSell
+        ? !new Decimal(price).gt(stop.highWaterMark)
+        : !new Decimal(price).lt(stop.highWaterMark)
+    ) {
+      return Promise.resolve();
+    }
+
+    let previous = {
+      highWaterMark: stop.highWaterMark,
+      stopPrice: stop.stopPrice
+    };
+    stop.highWaterMark = price;
+
+    let stopPrice = this.getStopPrice(stop);
+    let moved = isSell
+      ? new Decimal(stopPrice).gt(stop.stopPrice)
+      : new Decimal(stopPrice).lt(stop.stopPrice);
+
+    if (!moved) {
+      return this.save();
+    }
+
+    stop.stopPrice = stopPrice;
+
+    return (stop.mode === "stop"
+      ? this.replaceStopOrder(stop)
+      : Promise.resolve(true)
+    )
+      .then(
+        active => {
+          if (active) {
+            this.emit(TRAILING_STOP_EVENTS.TRAILING_STOP_MOVED, {
+              stop: Object.assign({}, stop)
+            });
+          }
+        },
+        error => {
+          // Moved again on the next poll that sees the price
+          Object.assign(stop, previous);
+          throw error;
+        }
+      )
+      .then(() => this.save());
+  }
+
+  /**
+   * Cancels the stop order and places it at the new stop price
+   * @return Promise resolved with false if the stop order filled instead
+   */
+  protected replaceStopOrder(stop: TrailingStopState): Promise<boolean> {
+    return this.cancelStopOrder(stop).then(order => {
+      if (order && order.state === APIOrderState.filled) {
+        this.trigger(stop, order);
+        return false;
+      }
+
+      return this.placeStopOrder(stop).then(() => true);
+    });
+  }
+
+  protected placeStopOrder(stop: TrailingStopState): Promise<void> {
+    let order: OrderStopMarketInterface = {
+      instrument: stop.instrument,
+      symbol: stop.symbol,
+      quantity: stop.quantity,
+      time_in_force: APIOrderTimeInForce.gtc,
+      type: APIOrderType.market,
+      trigger: APIOrderTrigger.stop,
+      stop_price: stop.stopPrice,
+      price: null
+    };
+
+    return (stop.side === APIOrderSide.buy
+      ? this.broker.placeBuyOrder(order)
+      : this.broker.placeSellOrder(order)
+    ).then(placed => {
+      stop.orderId = placed.id;
+      this.trackStopOrder(stop, placed);
+    });
+  }
+
+  /**
+   * Cancels the stop order and waits for it to be done, it may have filled
+   * in the meantime. The stop keeps the order until it's done so a failure
+   * never leaves a live stop order behind.
+   */
+  protected cancelStopOrder(
+    stop: TrailingStopState
+  ): Promise<APIOrderResponseInterface | null> {
+    if (!stop.orderId) {
+      return Promise.resolve(null);
+    }
+
+    let orderId = stop.orderId;
+    this.canceling[orderId] = true;
+
+    return this.broker
+      .getOrder(orderId)
+      .then(order => this.requestCancel(order).then(() => this.wait(order)))
+      .then(
+        final => {
+          delete this.canceling[orderId];
+
+          if (stop.orderId === orderId) {
+            stop.orderId = null;
+          }
+
+          return final;
+        },
+        error => {
+          delete this.canceling[orderId];
+          throw error;
+        }
+      );
+  }
+
+  /**
+   * Requests a cancel until it goes through. Canceling an order that's
+   * already done fails, so it isn't requested again once the order is done.
+   */
+  protected requestCancel(
+    order: APIOrderResponseInterface,
+    attempts: number = this.options.cancelAttempts
+  ): Promise<void> {
+    return this.broker.cancelOrder(order).then(
+      () => undefined,
+      error => {
+        this.emitError(error);
+
+        if (attempts <= 1) {
+          return undefined;
+        }
+
+        return this.broker
+          .getOrder(order.id)
+          .then(
+            current =>
+              DONE_STATES.includes(current.state)
+                ? undefined
+                : this.requestCancel(current, attempts - 1)
+          );
+      }
+    );
+  }
+
+  /**
+   * Waits for a canceled order to be done, polls for every stop are
+   * sequential so an order that never settles can't hold them up for good
+   */
+  protected wait(
+    order: APIOrderResponseInterface
+  ): Promise<APIOrderResponseInterface> {
+    let timeout: NodeJS.Timer;
+
+    return Promise.race([
+      this.tracker.track(order),
+      new Promise<APIOrderResponseInterface>((_resolve, reject) => {
+        timeout = setTimeout(
+          () =>
+            reject(
+              new TrailingStopError(
+                `Stop order ${order.id} wasn't canceled in time`
+              )
+            ),
+          this.options.cancelTimeout
+        );
+      })
+    ]).then(
+      final => {
+        clearTimeout(timeout);
+        return final;
+      },
+      error => {
+        clearTimeout(timeout);
+        throw error;
+      }
+    );
+  }
+
+  protected trackStopOrder(
+    stop: TrailingStopState,
+    order: APIOrderResponseInterface
+  ): void {
+    this.tracker
+      .track(order)
+      .then(final => {
+        // Being canceled, replaced or removed in the meantime
+        if (
+          this.canceling[final.id] ||
+          stop.orderId !== final.id ||
+          this.stops[stop.symbol] !== stop
+        ) {
+          return;
+        }
+
+        stop.orderId = null;
+
+        if (final.state === APIOrderState.filled) {
+          return this.trigger(stop, final);
+        }
+
+        this.emitError(
+          new TrailingStopError(
+            `${stop.symbol} trailing stop order ${final.id} was ${final.state}`
+          )
+        );
+      })
+      .catch(error => this.emitError(error));
+  }
+
+  protected resumeStop(stop: TrailingStopState): Promise<void> {
+    if (stop.mode !== "stop") {
+      return Promise.resolve();
+    }
+
+    if (!stop.orderId) {
+      return this.placeStopOrder(stop);
+    }
+
+    return this.broker.getOrder(stop.orderId).then(order => {
+      if (order.state === APIOrderState.filled) {
+        return this.trigger(stop, order);
+      }
+
+      if (
+        order.state === APIOrderState.canceled ||
+        order.state === APIOrderState.cancelled ||
+        order.state === APIOrderState.rejected ||
+        order.state === APIOrderState.failed
+      ) {
+        return this.placeStopOrder(stop);
+      }
+
+      this.trackStopOrder(stop, order);
+    });
+  }
+
+  /**
+   * Polls are sequential so the order isn't placed twice,
+   * if it fails it's tried again on the next poll
+   */
+  protected placeMarketOrder(stop: TrailingStopState): Promise<void> {
+    return this.broker
+      .placeMarketOrder(stop.symbol, stop.side, stop.quantity)
+      .then(order => this.trigger(stop, order));
+  }
+
+  protected trigger(
+    stop: TrailingStopState,
+    order: APIOrderResponseInterface
+  ): Promise<void> {
+    delete this.stops[stop.symbol];
+
+    this.emit(TRAILING_STOP_EVENTS.TRAILING_STOP_TRIGGERED, {
+      stop: Object.assign({}, stop),
+      order
+    });
+
+    return this.save();
+  }
+
+  /**
+   * Trails the high-water mark, rounded to a tick away from the price
+   */
+  protected getStopPrice(stop: TrailingStopState): string {
+    let isSell = stop.side === APIOrderSide.sell;
+    let mark = new Decimal(stop.highWaterMark);
+    let trail =
+      stop.trailAmount != null
+        ? new Decimal(stop.trailAmount)
+        : mark.times(stop.trailPercent);
+
+    return (isSell ? mark.minus(trail) : mark.plus(trail))
+      .roundToTick(stop.tickSize, isSell ? "floor" : "ceil")
+      .toString();
+  }
+
+  protected getPrice(quote: APIQuoteInterface): string | null {
+    return quote.last_trade_price;
+  }
+
+  protected save(): Promise<void> {
+    return this.store
+      .save(this.getStops())
+      .catch(error => this.emitError(error));
+  }
+
+  protected emitError(error: any): void {
+    this.emit(EVENTS.ERROR, {
+      type: ERRORS.TRAILING_STOP,
+      message: error.message || error.detail
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import fs = require("fs");
+import os = require("os");
+import path = require("path");
+
+import {
+  FileTrailingStopStore,
+  MemoryTrailingStopStore
+} from "./TrailingStopStore";
+
+describe("TrailingStopStore", () => {
+  let stops;
+
+  beforeEach(() => {
+    stops = [{ symbol: "FB", highWaterMark: "120.00", stopPrice: "118.00" }];
+  });
+
+  describe("MemoryTrailingStopStore", () => {
+    it("loads what was saved", done => {
+      let instance = new MemoryTrailingStopStore();
+
+      instance
+        .load()
+        .then(loaded => {
+          expect(loaded).to.deep.equal([]);
+          return instance.save(stops);
+        })
+        .then(() => instance.load())
+        .then(loaded => {
+          expect(loaded).to.deep.equal(stops);
+          done();
+        })
+        .catch(done);
+    });
+  });
+
+  describe("FileTrailingStopStore", () => {
+    let file, instance;
+
+    beforeEach(() => {
+      file = path.join(os.tmpdir(), `trailing-stop-store-${process.pid}.json`);
+      instance = new FileTrailingStopStore(file);
+    });
+
+    afterEach(done => {
+      fs.unlink(file, () => done());
+    });
+
+    it("resolves nothing when nothing has been saved", done => {
+      instance.load().then(loaded => {
+        expect(loaded).to.deep.equal([]);
+        done();
+      });
+    });
+
+    it("writes the stops to a file", done => {
+      instance
+        .save(stops)
+        .then(() => new FileTrailingStopStore(file).load())
+        .then(loaded => {
+          expect(loaded).to.deep.equal(stops);
+          done();
+        })
+        .catch(done);
+    });
+
+    it("rejects on invalid contents", done => {
+      fs.writeFileSync(file, "foo");
+
+      instance.load().catch(error => {
+        expect(error).to.be.an.instanceof(SyntaxError);
+        done();
+      });
+    });
+  });
+});
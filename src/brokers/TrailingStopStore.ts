@@ -0,0 +1,80 @@
+import fs = require("fs");
+
+import { APIOrderSide } from "./RobinhoodInterfaces";
+
+export type TrailingStopMode =
+  | "stop" // Keeps a stop order resting at the stop price
+  | "market"; // Places a market order once the stop price is hit
+
+export interface TrailingStopState {
+  symbol: string; // "FB"
+  instrument: string; // Instrument URL
+  side: APIOrderSide; // Side of the exit, "sell" protects a long position
+  quantity: string; // "10"
+  mode: TrailingStopMode;
+  trailPercent: number | null; // 0.05 trails 5% behind the high-water mark
+  trailAmount: string | null; // "2.50" trails $2.50 behind it
+  tickSize: string; // "0.01"
+  highWaterMark: string; // Best price seen, the lowest one when buying
+  stopPrice: string; // "95.00"
+  orderId: string | null; // Resting stop order in "stop" mode
+}
+
+/**
+ * Persists trailing stops so a restart doesn't reset their high-water marks
+ */
+export interface TrailingStopStore {
+  load(): Promise<TrailingStopState[]>;
+  save(stops: TrailingStopState[]): Promise<void>;
+}
+
+export class MemoryTrailingStopStore implements TrailingStopStore {
+  protected stops: TrailingStopState[] = [];
+
+  public load(): Promise<TrailingStopState[]> {
+    return Promise.resolve(this.stops);
+  }
+
+  public save(stops: TrailingStopState[]): Promise<void> {
+    this.stops = stops;
+    return Promise.resolve();
+  }
+}
+
+export class FileTrailingStopStore implements TrailingStopStore {
+  protected path: string;
+
+  /**
+   * @param  path {String} JSON file the stops are written to
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public load(): Promise<TrailingStopState[]> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(this.path, "utf8", (error, contents) => {
+        if (error) {
+          return error.code === "ENOENT" ? resolve([]) : reject(error);
+        }
+
+        try {
+          resolve(JSON.parse(contents));
+        } catch (parseError) {
+          reject(parseError);
+        }
+      });
+    });
+  }
+
+  public save(stops: TrailingStopState[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fs.writeFile(
+        this.path,
+        JSON.stringify(stops),
+        "utf8",
+        error => (error ? reject(error) : resolve())
+      );
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import {} from "mocha";
+const { expect } = require("chai");
+import util = require("util");
+
+import {
+  canRunStrategy,
+  getUnmetRequirements,
+  redactByDefault,
+  redactProfile
+} from "./UserProfile";
+import {
+  APIInvestmentExperience,
+  APIRiskTolerance
+} from "./RobinhoodInterfaces";
+
+describe("UserProfile", () => {
+  let profile;
+
+  beforeEach(() => {
+    profile = {
+      user: { id: "foo", first_name: "John", email: "john@example.com" },
+      basicInfo: { tax_id_ssn: "1234", citizenship: "US" },
+      employment: { employer_name: null, occupation: "Engineer" },
+      investmentProfile: {
+        risk_tolerance: APIRiskTolerance.med,
+        investment_experience: APIInvestmentExperience.limited,
+        total_net_worth: "100000_199999"
+      }
+    };
+  });
+
+  describe("#redactProfile", () => {
+    it("redacts personal fields at any depth", () => {
+      expect(redactProfile(profile)).to.deep.equal({
+        user: { id: "foo", first_name: "[REDACTED]", email: "[REDACTED]" },
+        basicInfo: { tax_id_ssn: "[REDACTED]", citizenship: "US" },
+        employment: { employer_name: null, occupation: "Engineer" },
+        investmentProfile: {
+          risk_tolerance: APIRiskTolerance.med,
+          investment_experience: APIInvestmentExperience.limited,
+          total_net_worth: "[REDACTED]"
+        }
+      });
+    });
+
+    it("leaves the profile as it is", () => {
+      redactProfile(profile);
+      expect(profile.user.email).to.equal("john@example.com");
+    });
+
+    it("redacts the fields given", () => {
+      expect(redactProfile(profile.basicInfo, ["citizenship"])).to.deep.equal({
+        tax_id_ssn: "1234",
+        citizenship: "[REDACTED]"
+      });
+    });
+  });
+
+  describe("#redactByDefault", () => {
+    it("redacts when serialized and inspected", () => {
+      redactByDefault(profile);
+
+      expect(JSON.parse(JSON.stringify(profile)).user.email).to.equal(
+        "[REDACTED]"
+      );
+      expect(util.inspect(profile)).to.not.include("john@example.com");
+      expect(util.inspect(profile)).to.include("Engineer");
+    });
+
+    it("keeps the fields readable", () => {
+      redactByDefault(profile);
+
+      expect(profile.user.email).to.equal("john@example.com");
+      expect(Object.keys(profile)).to.deep.equal([
+        "user",
+        "basicInfo",
+        "employment",
+        "investmentProfile"
+      ]);
+    });
+  });
+
+  describe("#getUnmetRequirements", () => {
+    it("is empty when every requirement is met", () => {
+      expect(
+        getUnmetRequirements(profile.investmentProfile, {
+          riskTolerance: APIRiskTolerance.low,
+          investmentExperience: APIInvestmentExperience.limited
+        })
+      ).to.deep.equal([]);
+    });
+
+    it("lists requirements that aren't met", () => {
+      expect(
+        getUnmetRequirements(profile.investmentProfile, {
+          riskTolerance: APIRiskTolerance.high,
+          investmentExperience: APIInvestmentExperience.good
+        })
+      ).to.deep.equal([
+        "Risk tolerance is med_risk_tolerance, " +
+          "high_risk_tolerance is required",
+        "Investment experience is limited_investment_exp, " +
+          "good_investment_exp is required"
+      ]);
+    });
+
+    it("doesn't meet requirements the user never answered", () => {
+      profile.investmentProfile.risk_tolerance = null;
+
+      expect(
+        getUnmetRequirements(profile.investmentProfile, {
+          riskTolerance: APIRiskTolerance.low
+        })
+      ).to.deep.equal([
+        "Risk tolerance is unknown, low_risk_tolerance is required"
+      ]);
+    });
+  });
+
+  describe("#canRunStrategy", () => {
+    it("allows strategies without requirements", () => {
+      profile.investmentProfile.risk_tolerance = null;
+      expect(canRunStrategy(profile.investmentProfile, {})).to.equal(true);
+    });
+
+    it("gates strategies on risk tolerance and experience", () => {
+      expect(
+        canRunStrategy(profile.investmentProfile, {
+          riskTolerance: APIRiskTolerance.med
+        })
+      ).to.equal(true);
+      expect(
+        canRunStrategy(profile.investmentProfile, {
+          investmentExperience: APIInvestmentExperience.extensive
+        })
+      ).to.equal(false);
+    });
+  });
+});
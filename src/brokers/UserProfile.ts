@@ -0,0 +1,162 @@
+import util = require("util");
+
+import {
+  APIInvestmentExperience,
+  APIInvestmentProfileInterface,
+  APIRiskTolerance
+} from "./RobinhoodInterfaces";
+
+export interface StrategyRequirements {
+  riskTolerance?: APIRiskTolerance; // Lowest risk tolerance allowed to run it
+  investmentExperience?: APIInvestmentExperience; // Least experience allowed
+}
+
+const REDACTED = "[REDACTED]";
+
+// Fields that identify the user or describe their finances
+export const PERSONAL_FIELDS = [
+  "username",
+  "first_name",
+  "last_name",
+  "email",
+  "phone_number",
+  "address",
+  "city",
+  "zipcode",
+  "date_of_birth",
+  "tax_id_ssn",
+  "employer_name",
+  "employer_address",
+  "employer_city",
+  "employer_zipcode",
+  "security_affiliated_firm_name",
+  "security_affiliated_address",
+  "annual_income",
+  "liquid_net_worth",
+  "total_net_worth",
+  "tax_bracket"
+];
+
+// Ordered from least to most
+const RISK_TOLERANCES = [
+  APIRiskTolerance.low,
+  APIRiskTolerance.med,
+  APIRiskTolerance.high
+];
+const INVESTMENT_EXPERIENCES = [
+  APIInvestmentExperience.none,
+  APIInvestmentExperience.limited,
+  APIInvestmentExperience.good,
+  APIInvestmentExperience.extensive
+];
+
+/**
+ * Copy of a value with personal fields replaced, at any depth.
+ * Fields that are null were never given and are left as they are.
+ * @param  value {Object} Profile or any of its parts
+ * @param  fields {Array} Names of the fields to redact
+ */
+export function redactProfile<T>(value: T[], fields?: string[]): T[];
+export function redactProfile<T>(value: T, fields?: string[]): T;
+export function redactProfile(value: any, fields = PERSONAL_FIELDS): any {
+  if (Array.isArray(value)) {
+    return value.map(item => redactProfile(item, fields));
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  return Object.keys(value).reduce(
+    (result, key) =>
+      Object.assign(result, {
+        [key]:
+          fields.includes(key) && value[key] !== null
+            ? REDACTED
+            : redactProfile(value[key], fields)
+      }),
+    {}
+  );
+}
+
+/**
+ * Redacts a value whenever it's logged with console.log or util.inspect and
+ * when it's serialized with JSON.stringify, its fields can still be read.
+ * Copies made with Object.assign or spreading aren't redacted.
+ */
+export function redactByDefault<T extends object>(value: T): T {
+  // Configurable so a value can be passed through more than once
+  Object.defineProperty(value, "toJSON", {
+    configurable: true,
+    value: () => redactProfile(value)
+  });
+  Object.defineProperty(value, util.inspect.custom, {
+    configurable: true,
+    value: () => redactProfile(value)
+  });
+
+  return value;
+}
+
+/**
+ * Requirements of a strategy the investment profile doesn't meet,
+ * empty when the account may run it. Answers the user never gave don't
+ * meet any requirement.
+ * Nothing calls this on its own, strategies don't declare requirements and
+ * Backtest runs any of them. Whatever starts a strategy for an account has
+ * to check it first.
+ */
+export function getUnmetRequirements(
+  profile: APIInvestmentProfileInterface,
+  requirements: StrategyRequirements
+): string[] {
+  let unmet = [];
+
+  if (
+    requirements.riskTolerance &&
+    !isAtLeast(
+      RISK_TOLERANCES,
+      profile.risk_tolerance,
+      requirements.riskTolerance
+    )
+  ) {
+    unmet.push(
+      `Risk tolerance is ${profile.risk_tolerance || "unknown"}, ` +
+        `${requirements.riskTolerance} is required`
+    );
+  }
+
+  if (
+    requirements.investmentExperience &&
+    !isAtLeast(
+      INVESTMENT_EXPERIENCES,
+      profile.investment_experience,
+      requirements.investmentExperience
+    )
+  ) {
+    unmet.push(
+      `Investment experience is ${profile.investment_experience ||
+        "unknown"}, ${requirements.investmentExperience} is required`
+    );
+  }
+
+  return unmet;
+}
+
+/**
+ * Whether the account may run a strategy with these requirements
+ */
+export function canRunStrategy(
+  profile: APIInvestmentProfileInterface,
+  requirements: StrategyRequirements
+): boolean {
+  return !getUnmetRequirements(profile, requirements).length;
+}
+
+function isAtLeast(
+  levels: string[],
+  level: string | null,
+  minimum: string
+): boolean {
+  return !!level && levels.indexOf(level) >= levels.indexOf(minimum);
+}